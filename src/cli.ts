@@ -1,7 +1,56 @@
 #!/usr/bin/env node
 import { Command } from "commander";
+import { createInterface } from "readline/promises";
 import { DaemonManager } from "./daemon/manager.js";
-import { readAllItems, readPendingItems, resetToPending, cleanupOldItems } from "./queue/index.js";
+import {
+  readAllItems,
+  readPendingItems,
+  resetToPending,
+  cleanupOldItems,
+  migrateQueue,
+  getQueueFile,
+  readDeadLetterItems,
+  findItem,
+  requeueDeadLetterItem,
+  purgeDeadLetterItems,
+  appendItem,
+  type QueueBackend,
+} from "./queue/index.js";
+import { runHook } from "./hooks/index.js";
+import {
+  getSessionState,
+  resolveSessionTarget,
+  linkSessionToIssue,
+  unlinkSession,
+  moveSessionComments,
+  readPendingReviews,
+  requestIssueCreation,
+  removePendingReview,
+  readIssueIndex,
+  syncIssueIndex,
+  getIssueIndexPath,
+  readLLMCacheStats,
+  clearLLMCache,
+  readLLMUsage,
+  getDailyLLMUsage,
+  type LLMUsageRecord,
+  type PendingReview,
+} from "./state/index.js";
+import {
+  explainTranscriptMatch,
+  loadEvalDataset,
+  loadIssueSnapshot,
+  evaluateMatching,
+  findBestRun,
+  LocalIssueSource,
+  toMatcherConfig,
+  type MatchExplanation,
+  type EvalReport,
+} from "./matching/index.js";
+import { LinearClient } from "./linear/client.js";
+import { createLLMProvider } from "./llm/providers.js";
+import { createLLMClient, LLMClient } from "./llm/client.js";
+import { loadConfig } from "./utils/config.js";
 import { logger } from "./utils/logger.js";
 
 const program = new Command();
@@ -62,6 +111,22 @@ program
       } else {
         logger.info("Daemon is not running");
       }
+
+      const deadLetters = readDeadLetterItems().length;
+      if (deadLetters > 0) {
+        logger.warn(
+          `${deadLetters} items in dead-letter queue ` +
+            `(see: claude-linear-sync queue dead-letter list)`,
+        );
+      }
+
+      const reviews = readPendingReviews().length;
+      if (reviews > 0) {
+        logger.warn(
+          `${reviews} sessions awaiting match review ` +
+            `(see: claude-linear-sync matches review)`,
+        );
+      }
     } catch (error) {
       logger.error("Failed to get daemon status:", error);
       process.exit(1);
@@ -96,6 +161,19 @@ queueCmd
       if (item.error) {
         console.log(`  Error: ${item.error}`);
       }
+      if (item.status === "processing" && item.leaseOwner) {
+        const expires = item.leaseExpiresAt
+          ? new Date(item.leaseExpiresAt).toLocaleString()
+          : "unknown";
+        console.log(`  Lease: PID ${item.leaseOwner} until ${expires}`);
+      }
+      if (item.status === "failed") {
+        console.log(`  Attempts: ${item.retryCount ?? 0}`);
+        if (item.nextAttemptAt) {
+          const next = new Date(item.nextAttemptAt).toLocaleString();
+          console.log(`  Next attempt: ${next}`);
+        }
+      }
       console.log("");
     }
   });
@@ -122,4 +200,781 @@ queueCmd
     logger.info(`Removed ${removed} processed items`);
   });
 
+queueCmd
+  .command("migrate")
+  .description("Copy queue items from one storage backend to another")
+  .option("--from <backend>", "Source backend (jsonl or sqlite)", "jsonl")
+  .option("--to <backend>", "Target backend (jsonl or sqlite)", "sqlite")
+  .action((options) => {
+    const backends: QueueBackend[] = ["jsonl", "sqlite"];
+    if (!backends.includes(options.from) || !backends.includes(options.to)) {
+      logger.error("Backend must be one of: jsonl, sqlite");
+      process.exit(1);
+    }
+
+    try {
+      const result = migrateQueue(options.from, options.to);
+      logger.info(
+        `Migrated ${result.copied} items to ${getQueueFile(options.to)} ` +
+          `(${result.skipped} already present)`,
+      );
+      logger.info(`Set queue.backend: ${options.to} in config to use it`);
+    } catch (error) {
+      logger.error(`Failed to migrate queue: ${error}`);
+      process.exit(1);
+    }
+  });
+
+// Dead-letter queue commands
+const deadLetterCmd = queueCmd
+  .command("dead-letter")
+  .description("Inspect and recover items that exhausted their retries");
+
+deadLetterCmd
+  .command("list")
+  .description("List dead-lettered items")
+  .action(() => {
+    const items = readDeadLetterItems();
+
+    if (items.length === 0) {
+      logger.info("Dead-letter queue is empty");
+      return;
+    }
+
+    logger.info(`Found ${items.length} dead-lettered items:\n`);
+
+    for (const item of items) {
+      const time = new Date(item.deadLetteredAt ?? item.timestamp).toLocaleString();
+      console.log(`[DEAD_LETTER] ${item.id}`);
+      console.log(`  Type: ${item.type}`);
+      console.log(`  Session: ${item.sessionId}`);
+      console.log(`  Dead-lettered: ${time}`);
+      console.log(`  Attempts: ${item.retryCount ?? 0}`);
+      if (item.error) {
+        console.log(`  Last error: ${item.error}`);
+      }
+      console.log("");
+    }
+  });
+
+deadLetterCmd
+  .command("show <id>")
+  .description("Show a dead-lettered item with the error from every attempt")
+  .action((id) => {
+    const item = findItem(id);
+    if (!item || item.status !== "dead_letter") {
+      logger.error(`Dead-lettered item not found: ${id}`);
+      process.exit(1);
+    }
+
+    console.log(`[DEAD_LETTER] ${item.id}`);
+    console.log(`  Type: ${item.type}`);
+    console.log(`  Session: ${item.sessionId}`);
+    console.log(`  Cwd: ${item.cwd}`);
+    if (item.type === "session_stop") {
+      console.log(`  Transcript: ${item.transcriptPath}`);
+    } else {
+      console.log(`  PR: ${item.prUrl}`);
+    }
+    console.log(`  Queued: ${new Date(item.timestamp).toLocaleString()}`);
+    if (item.deadLetteredAt) {
+      console.log(
+        `  Dead-lettered: ${new Date(item.deadLetteredAt).toLocaleString()}`,
+      );
+    }
+
+    const attempts = item.attempts ?? [];
+    console.log(`\n  Error chain (${attempts.length} attempts):`);
+    attempts.forEach((attempt, index) => {
+      const started = new Date(attempt.startedAt).toLocaleString();
+      console.log(`  ${index + 1}. ${started}: ${attempt.error ?? "(no error recorded)"}`);
+    });
+    if (attempts.length === 0 && item.error) {
+      console.log(`  -: ${item.error}`);
+    }
+  });
+
+deadLetterCmd
+  .command("requeue [id]")
+  .description("Move dead-lettered items back to pending")
+  .option("-a, --all", "Requeue every dead-lettered item")
+  .action((id, options) => {
+    const ids: string[] = options.all
+      ? readDeadLetterItems().map((item) => item.id)
+      : id
+        ? [id]
+        : [];
+
+    if (ids.length === 0) {
+      logger.error("Specify an item id or --all");
+      process.exit(1);
+    }
+
+    for (const itemId of ids) {
+      try {
+        requeueDeadLetterItem(itemId);
+        logger.info(`Item ${itemId} requeued`);
+      } catch (error) {
+        logger.error(`Failed to requeue item: ${error}`);
+      }
+    }
+  });
+
+deadLetterCmd
+  .command("purge")
+  .description("Delete dead-lettered items")
+  .option("--hours <hours>", "Only delete items dead-lettered more than N hours ago")
+  .action((options) => {
+    const hours = options.hours ? parseInt(options.hours, 10) : undefined;
+    const removed = purgeDeadLetterItems(hours);
+    logger.info(`Removed ${removed} dead-lettered items`);
+  });
+
+// Session link commands
+program
+  .command("link <session> <issueId>")
+  .description(
+    "Link a session (ID or transcript path) to an issue, overriding matching",
+  )
+  .option("--move-comments", "Move comments already posted to the new issue")
+  .action(async (session, issueId, options) => {
+    const { sessionId, transcriptPath } = resolveSessionTarget(session);
+    const linearClient = new LinearClient();
+
+    if (options.moveComments && !linearClient.isConfigured()) {
+      logger.error("--move-comments needs LINEAR_API_KEY to reach Linear");
+      process.exit(1);
+    }
+
+    try {
+      if (linearClient.isConfigured()) {
+        const issue = await linearClient.getIssue(issueId);
+        if (!issue) {
+          logger.error(`Issue not found: ${issueId}`);
+          process.exit(1);
+        }
+      }
+
+      const previous = getSessionState(sessionId)?.issueIdentifier;
+      linkSessionToIssue(sessionId, issueId, transcriptPath);
+      logger.info(
+        `Linked session ${sessionId} to ${issueId}` +
+          (previous && previous !== issueId ? ` (was ${previous})` : ""),
+      );
+
+      if (options.moveComments) {
+        const result = await moveSessionComments(linearClient, sessionId, issueId);
+        logger.info(
+          `Moved ${result.moved} comments to ${issueId}` +
+            (result.failed > 0 ? ` (${result.failed} failed)` : ""),
+        );
+      }
+    } catch (error) {
+      logger.error(`Failed to link session: ${error}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command("unlink <session>")
+  .description("Remove a session's issue link so the next sync matches again")
+  .action((session) => {
+    const { sessionId } = resolveSessionTarget(session);
+    const state = unlinkSession(sessionId);
+
+    if (state) {
+      logger.info(`Unlinked session ${sessionId}`);
+    } else {
+      logger.warn(`Session ${sessionId} is not linked to an issue`);
+    }
+  });
+
+// Match review commands
+const matchesCmd = program
+  .command("matches")
+  .description("Review sessions whose issue match was uncertain");
+
+matchesCmd
+  .command("list")
+  .description("List sessions awaiting review")
+  .action(() => {
+    const reviews = readPendingReviews();
+
+    if (reviews.length === 0) {
+      logger.info("No sessions awaiting review");
+      return;
+    }
+
+    console.log(`\nSessions awaiting review (${reviews.length}):\n`);
+    for (const review of reviews) {
+      const best = review.candidates[0];
+      console.log(`  ${review.sessionId}`);
+      console.log(`    Cwd: ${review.cwd}`);
+      console.log(`    Parked: ${review.createdAt}`);
+      if (review.decision === "create") {
+        console.log(`    Decision: create new issue (waiting for daemon)`);
+      } else if (best) {
+        console.log(
+          `    Best: ${best.identifier} ${formatPercent(best.confidence)} - ${best.title}`,
+        );
+      }
+      console.log();
+    }
+  });
+
+matchesCmd
+  .command("review [sessionId]")
+  .description("Pick the issue for each uncertain session interactively")
+  .action(async (sessionId) => {
+    const reviews = readPendingReviews().filter(
+      (review) =>
+        review.decision !== "create" &&
+        (!sessionId || review.sessionId === sessionId),
+    );
+
+    if (reviews.length === 0) {
+      logger.info("No sessions awaiting review");
+      return;
+    }
+
+    const rl = createInterface({ input: process.stdin, output: process.stdout });
+
+    try {
+      for (const review of reviews) {
+        printReview(review);
+
+        const answer = (
+          await rl.question(
+            `Choose [1-${review.candidates.length}], (c)reate new, (s)kip, (q)uit: `,
+          )
+        )
+          .trim()
+          .toLowerCase();
+
+        if (answer === "q") {
+          break;
+        }
+        if (answer === "" || answer === "s") {
+          continue;
+        }
+
+        if (answer === "c") {
+          requestIssueCreation(review.sessionId);
+          requeueReviewedSession(review);
+          logger.info(`A new issue will be created for ${review.sessionId}`);
+          continue;
+        }
+
+        const candidate = review.candidates[Number(answer) - 1];
+        if (!candidate) {
+          logger.warn(`Invalid choice: ${answer} (skipped)`);
+          continue;
+        }
+
+        linkSessionToIssue(
+          review.sessionId,
+          candidate.identifier,
+          review.transcriptPath,
+        );
+        removePendingReview(review.sessionId);
+        requeueReviewedSession(review);
+        logger.info(`Linked session ${review.sessionId} to ${candidate.identifier}`);
+      }
+    } finally {
+      rl.close();
+    }
+  });
+
+function printReview(review: PendingReview): void {
+  console.log(`\nSession: ${review.sessionId}`);
+  console.log(`  Cwd: ${review.cwd}`);
+  console.log(
+    `  Reason: ${review.reason === "ambiguous" ? "top candidates too close" : "low confidence"}`,
+  );
+  console.log(`  Transcript: ${review.transcriptPath}\n`);
+
+  review.candidates.forEach((candidate, index) => {
+    console.log(
+      `  [${index + 1}] ${candidate.identifier} ${formatPercent(candidate.confidence)} ` +
+        `- ${candidate.title} (${candidate.stateName})`,
+    );
+
+    const scores = [
+      candidate.keywordScore !== undefined
+        ? `keyword ${formatPercent(candidate.keywordScore)}`
+        : null,
+      candidate.semanticScore !== undefined
+        ? `semantic ${formatPercent(candidate.semanticScore)}`
+        : null,
+    ].filter(Boolean);
+    if (scores.length > 0) {
+      console.log(`      Scores: ${scores.join(", ")}`);
+    }
+    if (candidate.matchedKeywords?.length) {
+      console.log(`      Keywords: ${candidate.matchedKeywords.join(", ")}`);
+    }
+    if (candidate.reasoning) {
+      console.log(`      Reasoning: ${candidate.reasoning}`);
+    }
+  });
+  console.log();
+}
+
+/** Queue the session again so the daemon syncs it with the decision */
+function requeueReviewedSession(review: PendingReview): void {
+  appendItem({
+    type: "session_stop",
+    sessionId: review.sessionId,
+    transcriptPath: review.transcriptPath,
+    cwd: review.cwd,
+  });
+}
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+// Matching diagnostics
+const matchCmd = program
+  .command("match")
+  .description("Issue matching diagnostics");
+
+matchCmd
+  .command("explain <transcriptPath>")
+  .description("Show the scoring breakdown for a transcript (no side effects)")
+  .option("--json", "Output JSON")
+  .option("--no-semantic", "Skip the LLM semantic search")
+  .action(async (transcriptPath, options) => {
+    const config = loadConfig();
+    const matching = config.matching;
+
+    try {
+      const explanation = await explainTranscriptMatch(
+        transcriptPath,
+        {
+          ...toMatcherConfig(matching),
+          enableSemantic: matching.enableSemantic && options.semantic,
+        },
+        {
+          useIndex: matching.index.enabled,
+          filter: matching.filters,
+          llmClient: createLLMClient(config.llm),
+        },
+      );
+
+      if (options.json) {
+        console.log(JSON.stringify(explanation, null, 2));
+      } else {
+        printExplanation(explanation);
+      }
+    } catch (error) {
+      logger.error(`Failed to explain match: ${error}`);
+      process.exit(1);
+    }
+  });
+
+matchCmd
+  .command("eval <dataset> <issues>")
+  .description(
+    "Evaluate matching offline against labeled transcripts and an issue snapshot",
+  )
+  .option(
+    "--thresholds <list>",
+    "Comma-separated confidence thresholds",
+    "0.5,0.6,0.7,0.8",
+  )
+  .option(
+    "--keyword-weights <list>",
+    "Comma-separated keyword weights (semantic weight = 1 - keyword weight)",
+  )
+  .option("--json", "Output JSON")
+  .action(async (dataset, issues, options) => {
+    const matching = loadConfig().matching;
+
+    try {
+      const thresholds = parseNumberList(options.thresholds);
+      const keywordWeights = options.keywordWeights
+        ? parseNumberList(options.keywordWeights)
+        : [matching.keywordWeight];
+
+      const report = await evaluateMatching(
+        loadEvalDataset(dataset),
+        loadIssueSnapshot(issues),
+        { thresholds, keywordWeights },
+        toMatcherConfig(matching),
+      );
+
+      if (options.json) {
+        console.log(JSON.stringify(report, null, 2));
+      } else {
+        printEvalReport(report);
+      }
+    } catch (error) {
+      logger.error(`Failed to evaluate matching: ${error}`);
+      process.exit(1);
+    }
+  });
+
+function parseNumberList(value: string): number[] {
+  const numbers = value.split(",").map((part) => Number(part.trim()));
+  if (numbers.some((n) => Number.isNaN(n) || n < 0 || n > 1)) {
+    throw new Error(`Expected numbers between 0 and 1: ${value}`);
+  }
+  return numbers;
+}
+
+function printEvalReport(report: EvalReport): void {
+  const formatMetric = (value: number | null) =>
+    value === null ? "-" : formatPercent(value);
+
+  console.log(`\nEvaluated ${report.cases} cases against ${report.issues} issues\n`);
+  console.log(
+    "  threshold  kw/sem     precision  recall   false-create  linked  review  created",
+  );
+
+  for (const run of report.runs) {
+    console.log(
+      "  " +
+        [
+          run.confidenceThreshold.toFixed(2).padEnd(9),
+          `${run.keywordWeight.toFixed(2)}/${run.semanticWeight.toFixed(2)}`.padEnd(9),
+          formatMetric(run.precision).padEnd(9),
+          formatMetric(run.recall).padEnd(7),
+          formatMetric(run.falseCreateRate).padEnd(12),
+          String(run.linked).padEnd(6),
+          String(run.reviewed).padEnd(6),
+          String(run.created),
+        ].join("  "),
+    );
+  }
+
+  const best = findBestRun(report);
+  if (!best) {
+    return;
+  }
+
+  console.log(
+    `\nBest F1: threshold ${best.confidenceThreshold}, ` +
+      `keyword_weight ${best.keywordWeight}, semantic_weight ${best.semanticWeight}`,
+  );
+
+  if (best.confusions.length === 0) {
+    console.log("No confusion cases\n");
+    return;
+  }
+
+  console.log(`Confusion cases (${best.confusions.length}):`);
+  for (const confusion of best.confusions) {
+    console.log(
+      `  ${confusion.kind}: expected ${confusion.expected ?? "(new issue)"}, ` +
+        `got ${confusion.predicted ?? "(new issue)"}` +
+        (confusion.confidence !== null
+          ? ` at ${formatPercent(confusion.confidence)}`
+          : "") +
+        ` - ${confusion.transcriptPath}`,
+    );
+  }
+  console.log();
+}
+
+function printExplanation(explanation: MatchExplanation): void {
+  const { content, config } = explanation;
+
+  console.log(`\nSession: ${content.sessionId || "(unknown)"}`);
+  console.log(`  Project: ${content.projectName}`);
+  console.log(`  Request: ${content.primaryRequest.slice(0, 100)}`);
+  console.log(`  Keywords: ${content.keywords.join(", ")}`);
+  console.log(`  Search query: ${explanation.searchQuery}`);
+  console.log(
+    `  Weights: keyword ${config.keywordWeight}, semantic ${config.semanticWeight}` +
+      (config.enableSemantic ? "" : " (semantic disabled)"),
+  );
+  console.log(
+    `  Thresholds: accept ${formatPercent(config.confidenceThreshold)}, ` +
+      `review ${formatPercent(config.reviewThreshold)}, ` +
+      `ambiguity margin ${formatPercent(config.ambiguityMargin)}`,
+  );
+  console.log(
+    `  Continuity: weight ${config.continuityWeight}, ` +
+      `half-life ${config.continuityHalfLifeHours}h`,
+  );
+
+  if (explanation.candidates.length === 0) {
+    console.log("\nNo candidates found");
+  }
+
+  explanation.candidates.forEach((candidate, index) => {
+    const { details } = candidate;
+    const verdict =
+      candidate.matchType === "ambiguous"
+        ? "review"
+        : candidate.confidence >= config.confidenceThreshold
+          ? "accept"
+          : candidate.confidence >= config.reviewThreshold
+            ? "review"
+            : "reject";
+
+    console.log(
+      `\n  [${index + 1}] ${candidate.issue.identifier} - ${candidate.issue.title} ` +
+        `(${candidate.issue.state.name})`,
+    );
+    console.log(
+      `      Confidence: ${formatPercent(candidate.confidence)} ` +
+        `(${candidate.matchType}, ${verdict})`,
+    );
+    console.log(`      Found by: ${details.strategies?.join(", ") || "-"}`);
+    console.log(
+      `      Keyword score: ${formatPercent(details.keywordScore ?? 0)} ` +
+        `[${details.matchedKeywords?.join(", ") || "no keywords"}]`,
+    );
+    if (details.signals) {
+      const { signals } = details;
+      console.log(
+        `      Signals: title ${formatPercent(signals.titleMatch)}, ` +
+          `description ${formatPercent(signals.descriptionMatch)}, ` +
+          `project ${signals.projectMatch ? "yes" : "no"}, ` +
+          `state ${formatPercent(signals.stateBonus)}, ` +
+          `recency ${signals.recencyBonus !== undefined ? formatPercent(signals.recencyBonus) : "-"}, ` +
+          `assigned to me ${signals.assignedToMe === undefined ? "-" : signals.assignedToMe ? "yes" : "no"}`,
+      );
+    }
+    console.log(
+      `      Semantic score: ` +
+        (details.semanticScore !== undefined
+          ? formatPercent(details.semanticScore)
+          : "-"),
+    );
+    if (details.continuity) {
+      const { continuity } = details;
+      console.log(
+        `      Continuity: ${formatPercent(continuity.score)} ` +
+          `(+${formatPercent(continuity.score * config.continuityWeight)}) ` +
+          `from ${continuity.sessionId}, ${continuity.ageHours.toFixed(1)}h ago, ` +
+          `${continuity.sameCwd ? "same cwd" : "other cwd"}, ` +
+          `${continuity.sharedFiles.length} shared files`,
+      );
+    }
+    if (details.reasoning) {
+      console.log(`      Reasoning: ${details.reasoning}`);
+    }
+  });
+
+  console.log(`\nDecision: ${explanation.decision}\n`);
+}
+
+// Local issue index commands
+const indexCmd = program
+  .command("index")
+  .description("Local Linear issue index used for matching");
+
+indexCmd
+  .command("sync")
+  .description("Pull issues updated since the last sync")
+  .option("--full", "Re-fetch every issue (drops deleted ones)")
+  .action(async (options) => {
+    const linearClient = new LinearClient();
+    if (!linearClient.isConfigured()) {
+      logger.error("LINEAR_API_KEY is not set");
+      process.exit(1);
+    }
+
+    try {
+      const result = await syncIssueIndex(linearClient, { full: options.full });
+      logger.info(
+        `Synced ${result.fetched} issues (${result.total} in index)`,
+      );
+    } catch (error) {
+      logger.error(`Failed to sync issue index: ${error}`);
+      process.exit(1);
+    }
+  });
+
+indexCmd
+  .command("status")
+  .description("Show index size and sync state")
+  .action(() => {
+    const index = readIssueIndex();
+
+    console.log(`\nIssue index: ${getIssueIndexPath()}`);
+    console.log(`  Issues: ${Object.keys(index.issues).length}`);
+    console.log(`  Last synced: ${index.lastSyncedAt ?? "never"}`);
+    console.log(`  Newest update: ${index.cursorUpdatedAt ?? "-"}`);
+    console.log(`  Viewer: ${index.viewer?.name ?? "-"}\n`);
+  });
+
+indexCmd
+  .command("search <query>")
+  .description("Search the index the way matching does (BM25)")
+  .option("--all", "Ignore the candidate filters from the config")
+  .action(async (query, options) => {
+    const index = readIssueIndex();
+    const source = new LocalIssueSource(
+      Object.values(index.issues),
+      index.viewer ?? null,
+      options.all ? {} : loadConfig().matching.filters,
+    );
+    const issues = await source.searchIssues(query);
+
+    if (issues.length === 0) {
+      logger.info("No issues found");
+      return;
+    }
+
+    for (const issue of issues) {
+      console.log(`  ${issue.identifier} - ${issue.title} (${issue.state.name})`);
+    }
+  });
+
+// LLM provider commands
+const llmCmd = program
+  .command("llm")
+  .description("LLM provider used for summaries and semantic matching");
+
+llmCmd
+  .command("test [prompt]")
+  .description("Send a prompt to the configured provider and print the reply")
+  .action(async (prompt) => {
+    const llm = loadConfig().llm;
+
+    try {
+      const provider = createLLMProvider(llm);
+      console.log(`Provider: ${provider.name} (${provider.model ?? "default model"})`);
+
+      // Without the cache, so the provider is really called, but within
+      // the daily budget and recorded in `usage`
+      const client = new LLMClient(provider, { budget: llm.budget });
+      const startedAt = Date.now();
+      const response = await client.complete(
+        prompt ?? "Reply with OK.",
+        "test",
+      );
+      console.log(`Response (${Date.now() - startedAt}ms):\n${response}`);
+    } catch (error) {
+      logger.error(`LLM call failed: ${error}`);
+      process.exit(1);
+    }
+  });
+
+// LLM response cache commands
+const cacheCmd = program
+  .command("cache")
+  .description("Cached LLM responses for summaries and semantic matching");
+
+cacheCmd
+  .command("stats")
+  .description("Show cache size and hit rate")
+  .action(() => {
+    const cache = loadConfig().llm.cache;
+    const stats = readLLMCacheStats(cache.ttlMs);
+    const lookups = stats.hits + stats.misses;
+    const hitRate = lookups > 0 ? Math.round((stats.hits / lookups) * 100) : 0;
+
+    console.log(`\nLLM cache: ${stats.path}${cache.enabled ? "" : " (disabled)"}`);
+    console.log(
+      `  Entries: ${stats.entries}/${cache.maxEntries} (${stats.expired} expired)`,
+    );
+    console.log(
+      `  Size: ${(stats.bytes / 1024).toFixed(1)} KB` +
+        ` (limit ${(cache.maxBytes / 1024 / 1024).toFixed(0)} MB)`,
+    );
+    console.log(`  Hits: ${stats.hits}, misses: ${stats.misses} (${hitRate}%)`);
+    console.log(`  Oldest: ${stats.oldestAt ?? "-"}`);
+    console.log(`  Newest: ${stats.newestAt ?? "-"}\n`);
+  });
+
+cacheCmd
+  .command("clear")
+  .description("Remove every cached response")
+  .action(() => {
+    const removed = clearLLMCache();
+    logger.info(`Removed ${removed} cached responses`);
+  });
+
+// LLM usage report
+program
+  .command("usage")
+  .description("Show LLM calls per day and purpose, and today's budget")
+  .option("--days <days>", "Number of days to show", "7")
+  .action((options) => {
+    const days = parseInt(options.days, 10);
+    const budget = loadConfig().llm.budget;
+    const usage = readLLMUsage(days);
+
+    console.log(`\nLLM usage (last ${days} days)\n`);
+    if (usage.length === 0) {
+      console.log("  No calls recorded\n");
+    } else {
+      console.log(
+        "  day         calls  cached  errors  skipped  avg time  ~tokens",
+      );
+      for (const [day, records] of usage) {
+        console.log(`  ${day}  ${formatUsageRow(records)}`);
+      }
+
+      const byPurpose = new Map<string, LLMUsageRecord[]>();
+      for (const record of usage.flatMap(([, records]) => records)) {
+        byPurpose.set(record.purpose, [
+          ...(byPurpose.get(record.purpose) ?? []),
+          record,
+        ]);
+      }
+      console.log("");
+      for (const [purpose, records] of byPurpose) {
+        console.log(`  ${purpose.padEnd(10)}  ${formatUsageRow(records)}`);
+      }
+    }
+
+    const today = getDailyLLMUsage();
+    const limits = [
+      budget.maxCallsPerDay > 0 ? `${budget.maxCallsPerDay} calls` : null,
+      budget.maxTokensPerDay > 0 ? `~${budget.maxTokensPerDay} tokens` : null,
+    ].filter(Boolean);
+    console.log(
+      `\nToday: ${today.calls} calls, ~${today.estimatedTokens} tokens` +
+        ` (budget: ${limits.length > 0 ? limits.join(", ") + " per day" : "unlimited"})\n`,
+    );
+  });
+
+/**
+ * One line of the usage table: calls that reached the model, cache hits,
+ * failures, calls skipped over budget, average model time and tokens
+ */
+function formatUsageRow(records: LLMUsageRecord[]): string {
+  const count = (outcome: LLMUsageRecord["outcome"]) =>
+    records.filter((record) => record.outcome === outcome).length;
+  const billed = records.filter(
+    (record) => record.outcome === "ok" || record.outcome === "error",
+  );
+  const avgMs =
+    billed.length > 0
+      ? billed.reduce((sum, record) => sum + record.durationMs, 0) / billed.length
+      : 0;
+  const tokens = billed.reduce((sum, record) => sum + record.estimatedTokens, 0);
+
+  return [
+    String(billed.length).padEnd(5),
+    String(count("cached")).padEnd(6),
+    String(count("error")).padEnd(6),
+    String(count("over_budget")).padEnd(7),
+    `${(avgMs / 1000).toFixed(1)}s`.padEnd(8),
+    String(tokens),
+  ].join("  ");
+}
+
+// Hook commands (invoked by Claude Code, payload on stdin); the slim
+// `claude-linear-sync-hook` entrypoint runs the same handlers faster
+const hookCmd = program
+  .command("hook")
+  .description("Claude Code hook entrypoints (reads hook JSON from stdin)");
+
+hookCmd
+  .command("stop")
+  .description("Enqueue a session_stop item")
+  .action(() => runHook("stop"));
+
+hookCmd
+  .command("post-tool-use")
+  .description("Enqueue a pr_created item when a PR is created")
+  .action(() => runHook("post-tool-use"));
+
 program.parse();
@@ -1,11 +1,10 @@
 import { spawn } from "child_process";
 import { writeFileSync, readFileSync, existsSync, unlinkSync } from "fs";
 import { join } from "path";
-import { homedir } from "os";
 import { QueueProcessor } from "./processor.js";
 import { logger } from "../utils/logger.js";
+import { DATA_DIR, loadConfig } from "../utils/config.js";
 
-const DATA_DIR = join(homedir(), ".local", "share", "claude-linear-sync");
 const PID_FILE = join(DATA_DIR, "daemon.pid");
 
 /**
@@ -66,7 +65,7 @@ export class DaemonManager {
     logger.info(`Daemon started (PID: ${process.pid})`);
 
     // Start processor
-    this.processor = new QueueProcessor();
+    this.processor = new QueueProcessor(loadConfig());
     await this.processor.start();
 
     // Keep running
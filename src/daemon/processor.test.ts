@@ -0,0 +1,342 @@
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  appendFileSync,
+  mkdirSync,
+  mkdtempSync,
+  rmSync,
+  writeFileSync,
+} from "fs";
+import { tmpdir } from "os";
+import { dirname, join } from "path";
+import type { LinearClient, LinearIssue } from "../linear/client.js";
+import type { Config } from "../utils/config.js";
+
+describe("QueueProcessor", () => {
+  let home: string;
+  let originalHome: string | undefined;
+  let processorModule: typeof import("./processor.js");
+  let queue: typeof import("../queue/index.js");
+  let state: typeof import("../state/index.js");
+  let llm: typeof import("../llm/client.js");
+  let config: Config;
+  let linear: FakeLinearClient;
+  let sessionId: string;
+  let transcriptPath: string;
+  let counter = 0;
+
+  before(async () => {
+    // Queue and session state live under the home directory, resolved at
+    // import time
+    originalHome = process.env.HOME;
+    home = mkdtempSync(join(tmpdir(), "processor-"));
+    process.env.HOME = home;
+    processorModule = await import("./processor.js");
+    queue = await import("../queue/index.js");
+    state = await import("../state/index.js");
+    llm = await import("../llm/client.js");
+
+    config = (await import("../utils/config.js")).readConfig();
+    config.matching.attachments.enabled = false;
+    config.matching.enableSemantic = false;
+  });
+
+  beforeEach(() => {
+    queue.getQueueStore().removeWhere(() => true);
+    linear = new FakeLinearClient();
+    sessionId = `session-${++counter}`;
+    transcriptPath = join(home, `${sessionId}.jsonl`);
+    writeFileSync(transcriptPath, "");
+  });
+
+  after(() => {
+    process.env.HOME = originalHome;
+    rmSync(home, { recursive: true, force: true });
+  });
+
+  /**
+   * Starts a fresh processor (as after a daemon restart), lets it work
+   * through the queue and stops it again
+   */
+  async function runDaemon(daemonConfig: Config = config): Promise<void> {
+    const processor = new processorModule.QueueProcessor(daemonConfig, {
+      linearClient: linear.asClient(),
+      llmClient: new llm.LLMClient({
+        name: "test",
+        complete: async () => "summary",
+      }),
+    });
+    await processor.start();
+    await processor.stop();
+  }
+
+  function writeMessages(messages: string[], gitBranch?: string): void {
+    for (const message of messages) {
+      const entry = {
+        type: "user",
+        sessionId,
+        timestamp: new Date().toISOString(),
+        cwd: "/repo",
+        gitBranch,
+        message: { role: "user", content: message },
+      };
+      appendFileSync(transcriptPath, JSON.stringify(entry) + "\n");
+    }
+  }
+
+  /**
+   * Replaces the local issue index fuzzy matching retrieves candidates from
+   */
+  function writeIssueIndex(issues: LinearIssue[]): void {
+    const path = state.getIssueIndexPath();
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(
+      path,
+      JSON.stringify({
+        issues: Object.fromEntries(issues.map((issue) => [issue.id, issue])),
+      }),
+    );
+  }
+
+  function enqueueStop() {
+    return queue.appendItem({
+      type: "session_stop",
+      sessionId,
+      transcriptPath,
+      cwd: "/repo",
+    });
+  }
+
+  test("syncs only the lines added since the last sync", async () => {
+    writeMessages(["first request"], "feature/ENG-1-login");
+    enqueueStop();
+    await runDaemon();
+
+    writeMessages(["second request"], "feature/ENG-1-login");
+    enqueueStop();
+    await runDaemon();
+
+    assert.deepEqual(
+      linear.comments.map((comment) => comment.issueId),
+      ["ENG-1", "ENG-1"],
+    );
+    const [first, second] = linear.comments.map((comment) => comment.body);
+    assert.match(first, /Session Summary[\s\S]*first request/);
+    assert.match(second, /Session Update/);
+    assert.doesNotMatch(second, /first request/);
+    assert.match(second, /second request/);
+
+    const synced = state.getSessionState(sessionId)!;
+    assert.equal(synced.syncedLineCount, 2);
+    assert.deepEqual(synced.commentIds, ["comment-1", "comment-2"]);
+  });
+
+  test("starts over when the transcript was rewritten", async () => {
+    state.updateSessionState(sessionId, (current) => ({
+      ...current,
+      issueIdentifier: "ENG-1",
+      resolvedBy: "branch",
+      syncedLineCount: 10,
+    }));
+    writeMessages(["rewritten request"], "feature/ENG-1-login");
+    enqueueStop();
+    await runDaemon();
+
+    assert.equal(linear.comments.length, 1);
+    assert.match(
+      linear.comments[0].body,
+      /Session Summary[\s\S]*rewritten request/,
+    );
+    assert.equal(state.getSessionState(sessionId)?.syncedLineCount, 1);
+  });
+
+  test("coalesces the session's waiting items into a successful sync", async () => {
+    writeMessages(["request"], "feature/ENG-1-login");
+    const first = enqueueStop();
+    const second = enqueueStop();
+    await runDaemon();
+
+    const coalesced = queue.findItem(second.id);
+    assert.equal(linear.comments.length, 1);
+    assert.equal(queue.findItem(first.id)?.status, "processed");
+    assert.ok(coalesced && queue.isSessionStopItem(coalesced));
+    assert.equal(coalesced.status, "processed");
+    assert.equal(coalesced.coalescedInto, first.id);
+  });
+
+  test("leaves the waiting items queued when the sync fails", async () => {
+    linear.failComments = true;
+    writeMessages(["request"], "feature/ENG-1-login");
+    const first = enqueueStop();
+    const second = enqueueStop();
+    await runDaemon();
+
+    for (const id of [first.id, second.id]) {
+      const item = queue.findItem(id);
+      assert.ok(item && queue.isSessionStopItem(item));
+      assert.equal(item.status, "failed");
+      assert.equal(item.coalescedInto, undefined);
+    }
+    const unsynced = state.getSessionState(sessionId)!;
+    assert.equal(unsynced.syncedLineCount, 0);
+    assert.deepEqual(unsynced.commentIds, []);
+  });
+
+  test("reuses the session's issue after a daemon restart", async () => {
+    const lenient = structuredClone(config);
+    lenient.matching.confidenceThreshold = 0.3;
+    lenient.matching.reviewThreshold = 0.1;
+
+    writeIssueIndex([issue("ENG-7", "Fix the login redirect loop")]);
+    writeMessages(["fix the login redirect loop"]);
+    enqueueStop();
+    await runDaemon(lenient);
+    assert.equal(state.getSessionState(sessionId)?.resolvedBy, "fuzzy");
+
+    // Matching again would now pick the other issue
+    writeIssueIndex([issue("ENG-8", "Fix the login redirect loop")]);
+    writeMessages(["also cover the logout redirect"]);
+    enqueueStop();
+    await runDaemon(lenient);
+
+    assert.deepEqual(
+      linear.comments.map((comment) => comment.issueId),
+      ["ENG-7", "ENG-7"],
+    );
+    assert.deepEqual(linear.created, []);
+  });
+
+  describe("match review", () => {
+    let strict: Config;
+
+    before(() => {
+      // Every fuzzy candidate lands between the two thresholds
+      strict = structuredClone(config);
+      strict.matching.confidenceThreshold = 0.99;
+      strict.matching.reviewThreshold = 0.01;
+    });
+
+    async function parkSession(): Promise<void> {
+      writeIssueIndex([issue("ENG-7", "Fix the login redirect loop")]);
+      writeMessages(["fix the login redirect loop"]);
+      enqueueStop();
+      await runDaemon(strict);
+    }
+
+    test("parks an uncertain match without commenting", async () => {
+      await parkSession();
+
+      const review = state.getPendingReview(sessionId);
+      assert.equal(review?.reason, "uncertain");
+      assert.deepEqual(
+        review.candidates.map((candidate) => candidate.identifier),
+        ["ENG-7"],
+      );
+      assert.deepEqual(linear.comments, []);
+      assert.deepEqual(linear.created, []);
+    });
+
+    test("syncs the whole session to the accepted candidate", async () => {
+      await parkSession();
+
+      // What `matches review` does when a candidate is picked
+      state.linkSessionToIssue(sessionId, "ENG-7", transcriptPath);
+      state.removePendingReview(sessionId);
+      enqueueStop();
+      await runDaemon(strict);
+
+      assert.equal(linear.comments.length, 1);
+      assert.equal(linear.comments[0].issueId, "ENG-7");
+      assert.match(linear.comments[0].body, /fix the login redirect loop/);
+    });
+
+    test("creates an issue once the reviewer asks for one", async () => {
+      await parkSession();
+
+      state.requestIssueCreation(sessionId);
+      enqueueStop();
+      await runDaemon(strict);
+
+      assert.equal(linear.created.length, 1);
+      assert.deepEqual(
+        linear.comments.map((comment) => comment.issueId),
+        ["ENG-100"],
+      );
+      assert.equal(state.getSessionState(sessionId)?.resolvedBy, "created");
+      assert.equal(state.getPendingReview(sessionId), null);
+    });
+
+    test("drops the pending review when the branch names the issue", async () => {
+      await parkSession();
+
+      writeMessages(["continue on the branch"], "feature/ENG-5-login");
+      enqueueStop();
+      await runDaemon(strict);
+
+      assert.deepEqual(
+        linear.comments.map((comment) => comment.issueId),
+        ["ENG-5"],
+      );
+      assert.equal(state.getPendingReview(sessionId), null);
+    });
+  });
+});
+
+function issue(identifier: string, title: string): LinearIssue {
+  return {
+    id: `id-${identifier}`,
+    identifier,
+    title,
+    url: `https://linear.app/acme/issue/${identifier}`,
+    state: { id: "state-1", name: "In Progress", type: "started" },
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Linear client recording comments and created issues; it reports itself
+ * unconfigured so the daemon doesn't sync the issue index
+ */
+class FakeLinearClient {
+  comments: { issueId: string; body: string }[] = [];
+  created: string[] = [];
+  failComments = false;
+
+  asClient(): LinearClient {
+    return this as unknown as LinearClient;
+  }
+
+  isConfigured() {
+    return false;
+  }
+
+  async findUser() {
+    return null;
+  }
+
+  async getTeams() {
+    return [{ id: "team-1", key: "ENG", name: "Engineering" }];
+  }
+
+  async getLabels() {
+    return [];
+  }
+
+  async getWorkflowStates() {
+    return [];
+  }
+
+  async createIssue(params: { title: string }) {
+    const identifier = `ENG-${100 + this.created.length}`;
+    this.created.push(params.title);
+    return { identifier };
+  }
+
+  async addComment(issueId: string, body: string) {
+    if (this.failComments) {
+      return null;
+    }
+    this.comments.push({ issueId, body });
+    return `comment-${this.comments.length}`;
+  }
+}
@@ -1,11 +1,19 @@
 import chokidar, { type FSWatcher } from "chokidar";
 import {
+	readAllItems,
 	readPendingItems,
 	readRetryableItems,
-	getQueuePath,
+	getNextRetryTime,
+	computeRetryDelay,
+	getQueueStore,
 	markAsProcessing,
+	renewLease,
+	reclaimExpiredLeases,
 	markAsProcessed,
 	markAsFailed,
+	markAsDeadLetter,
+	markAsCoalesced,
+	deadLetterExhaustedItems,
 	isSessionStopItem,
 	isPrCreatedItem,
 	type QueueItem,
@@ -18,17 +26,55 @@ import {
 	type LinearWorkflowState,
 } from "../linear/client.js";
 import {
-	parseTranscript,
+	parseTranscriptLines,
 	filterNoise,
 	extractContent,
 } from "../transcript/parser.js";
-import { findMatchingIssue } from "../matching/index.js";
+import {
+	getSessionState,
+	updateSessionState,
+	getPendingReview,
+	savePendingReview,
+	removePendingReview,
+	syncIssueIndex,
+	type SessionState,
+	type PendingReview,
+	type IssueResolutionMethod,
+} from "../state/index.js";
+import {
+	findMatchingIssue,
+	extractIssueIdFromBranch,
+	toMatcherConfig,
+	type FindMatchingIssueOptions,
+	type HybridMatcherConfig,
+	type MatchResult,
+} from "../matching/index.js";
 import { summarizeSession } from "../transcript/summarizer.js";
+import { createLLMClient, type LLMClient } from "../llm/client.js";
 import { logger } from "../utils/logger.js";
+import { isChildSession } from "../utils/child-session.js";
+import type { Config } from "../utils/config.js";
 
 // Default assignee
 const DEFAULT_ASSIGNEE = "hibiki.tatsuno";
 
+// setTimeout overflows above 2^31-1 ms (~24.8 days)
+const MAX_TIMER_DELAY_MS = 2_147_483_647;
+
+// Candidates kept for `matches review`
+const MAX_REVIEW_CANDIDATES = 5;
+
+// File paths remembered per session for the continuity boost
+const MAX_HISTORY_FILE_PATHS = 200;
+
+/**
+ * Result of resolving the issue for a session
+ */
+type SessionIssueResolution =
+	| { status: "resolved"; identifier: string }
+	| { status: "parked" }
+	| { status: "failed" };
+
 // Label mapping based on directory patterns
 const LABEL_PATTERNS: { pattern: RegExp; labels: string[] }[] = [
 	{ pattern: /frontend|web|react|vue|next/i, labels: ["Frontend"] },
@@ -47,9 +93,15 @@ const LABEL_PATTERNS: { pattern: RegExp; labels: string[] }[] = [
 ];
 
 export class QueueProcessor {
+	private config: Config;
 	private linearClient: LinearClient;
+	private llmClient: LLMClient;
 	private watcher: FSWatcher | null = null;
 	private processing = false;
+	private running = false;
+	private retryTimer: NodeJS.Timeout | null = null;
+	private leaseTimer: NodeJS.Timeout | null = null;
+	private indexTimer: NodeJS.Timeout | null = null;
 
 	// Cache for Linear data
 	private cachedUserId: string | null = null;
@@ -57,8 +109,17 @@ export class QueueProcessor {
 	private cachedLabels: LinearLabel[] = [];
 	private cachedStates: LinearWorkflowState[] = [];
 
-	constructor() {
-		this.linearClient = new LinearClient();
+	/**
+	 * @param clients Linear and LLM clients to use instead of the ones built
+	 *   from the environment and config (for tests)
+	 */
+	constructor(
+		config: Config,
+		clients: { linearClient?: LinearClient; llmClient?: LLMClient } = {},
+	) {
+		this.config = config;
+		this.linearClient = clients.linearClient ?? new LinearClient();
+		this.llmClient = clients.llmClient ?? createLLMClient(config.llm, logger);
 	}
 
 	/**
@@ -66,22 +127,52 @@ export class QueueProcessor {
 	 */
 	async start(): Promise<void> {
 		logger.info("Starting queue processor...");
+		this.running = true;
 
 		// Initialize Linear cache
 		await this.initializeLinearCache();
 
+		const deadLettered = deadLetterExhaustedItems(this.config.queue.maxRetries);
+		if (deadLettered > 0) {
+			logger.warn(`Moved ${deadLettered} exhausted items to dead-letter queue`);
+		}
+
+		// Recover items left in "processing" by a previous crash
+		this.reclaimLeases();
+		this.leaseTimer = setInterval(
+			() =>
+				void this.runInBackground("Lease reclaim", async () => {
+					if (this.reclaimLeases() > 0) {
+						await this.processQueue();
+					}
+				}),
+			this.config.queue.leaseMs / 2,
+		);
+
+		// Keep the local issue index fresh for offline matching
+		if (this.config.matching.index.enabled) {
+			void this.runInBackground("Issue index sync", () => this.syncIssueIndex());
+			this.indexTimer = setInterval(
+				() =>
+					void this.runInBackground("Issue index sync", () =>
+						this.syncIssueIndex(),
+					),
+				this.config.matching.index.syncIntervalMs,
+			);
+		}
+
 		// 初回処理
 		await this.processQueue();
 
 		// キューファイルを監視
-		this.watcher = chokidar.watch(getQueuePath(), {
+		this.watcher = chokidar.watch(getQueueStore().getWatchPaths(), {
 			persistent: true,
 			ignoreInitial: true,
 		});
 
-		this.watcher.on("change", async () => {
+		this.watcher.on("change", () => {
 			logger.debug("Queue file changed");
-			await this.processQueue();
+			void this.runInBackground("Queue processing", () => this.processQueue());
 		});
 
 		logger.info("Queue processor started");
@@ -122,10 +213,44 @@ export class QueueProcessor {
 		}
 	}
 
+	/**
+	 * Pull issues updated since the last sync into the local index
+	 */
+	private async syncIssueIndex(): Promise<void> {
+		if (!this.linearClient.isConfigured()) {
+			return;
+		}
+
+		try {
+			const result = await syncIssueIndex(this.linearClient);
+			if (result.fetched > 0) {
+				logger.info(
+					`Issue index synced: ${result.fetched} updated, ${result.total} total`,
+				);
+			}
+		} catch (error) {
+			// Matching keeps using the existing index
+			logger.warn(`Issue index sync failed: ${error}`);
+		}
+	}
+
 	/**
 	 * Stop watching queue file
 	 */
 	async stop(): Promise<void> {
+		this.running = false;
+		if (this.retryTimer) {
+			clearTimeout(this.retryTimer);
+			this.retryTimer = null;
+		}
+		if (this.leaseTimer) {
+			clearInterval(this.leaseTimer);
+			this.leaseTimer = null;
+		}
+		if (this.indexTimer) {
+			clearInterval(this.indexTimer);
+			this.indexTimer = null;
+		}
 		if (this.watcher) {
 			await this.watcher.close();
 			this.watcher = null;
@@ -154,8 +279,8 @@ export class QueueProcessor {
 				await this.processItem(item);
 			}
 
-			// Retryable failed items
-			const retryableItems = readRetryableItems();
+			// Failed items whose backoff has elapsed
+			const retryableItems = readRetryableItems(this.config.queue.maxRetries);
 			if (retryableItems.length > 0) {
 				logger.debug(`Found ${retryableItems.length} retryable items`);
 				for (const item of retryableItems) {
@@ -164,6 +289,66 @@ export class QueueProcessor {
 			}
 		} finally {
 			this.processing = false;
+			this.scheduleRetry();
+		}
+	}
+
+	/**
+	 * Put items with lapsed processing leases back to pending
+	 */
+	private reclaimLeases(): number {
+		const reclaimed = reclaimExpiredLeases();
+		for (const item of reclaimed) {
+			logger.warn(`Reclaimed stale processing item: ${item.id} (${item.type})`);
+		}
+		return reclaimed.length;
+	}
+
+	/**
+	 * Arm a timer for the earliest scheduled retry
+	 *
+	 * Retries become due with the passage of time rather than a queue file
+	 * change, so the watcher alone would never pick them up.
+	 */
+	private scheduleRetry(): void {
+		if (this.retryTimer) {
+			clearTimeout(this.retryTimer);
+			this.retryTimer = null;
+		}
+
+		if (!this.running) {
+			return;
+		}
+
+		const next = getNextRetryTime(this.config.queue.maxRetries);
+		if (!next) {
+			return;
+		}
+
+		const delay = Math.min(
+			MAX_TIMER_DELAY_MS,
+			Math.max(0, next.getTime() - Date.now()),
+		);
+		logger.debug(`Next retry scheduled at ${next.toISOString()}`);
+
+		this.retryTimer = setTimeout(() => {
+			this.retryTimer = null;
+			void this.runInBackground("Scheduled retry", () => this.processQueue());
+		}, delay);
+	}
+
+	/**
+	 * Runs a timer or watcher callback, logging failures instead of letting
+	 * them become unhandled rejections (which end the daemon)
+	 */
+	private async runInBackground(
+		task: string,
+		fn: () => Promise<unknown> | unknown,
+	): Promise<void> {
+		try {
+			await fn();
+		} catch (error) {
+			logger.error(`${task} failed: ${error}`);
 		}
 	}
 
@@ -171,10 +356,27 @@ export class QueueProcessor {
 	 * Process a single queue item
 	 */
 	private async processItem(item: QueueItem): Promise<void> {
-		logger.info(`Processing item: ${item.id} (${item.type})`);
+		const leaseMs = this.config.queue.leaseMs;
+		let claimed = false;
+		let heartbeat: NodeJS.Timeout | undefined;
 
 		try {
-			markAsProcessing(item.id);
+			if (!markAsProcessing(item.id, leaseMs)) {
+				logger.debug(`Item ${item.id} is no longer claimable, skipping`);
+				return;
+			}
+			claimed = true;
+
+			logger.info(`Processing item: ${item.id} (${item.type})`);
+
+			// Keep the lease alive while the item is being worked on
+			heartbeat = setInterval(() => {
+				try {
+					renewLease(item.id, leaseMs);
+				} catch (error) {
+					logger.warn(`Failed to renew lease for ${item.id}: ${error}`);
+				}
+			}, leaseMs / 3);
 
 			if (isSessionStopItem(item)) {
 				await this.processSessionStop(item);
@@ -187,60 +389,338 @@ export class QueueProcessor {
 		} catch (error) {
 			const errorMessage =
 				error instanceof Error ? error.message : String(error);
-			logger.error(`Failed to process item ${item.id}: ${errorMessage}`);
-			markAsFailed(item.id, errorMessage);
+
+			if (!claimed) {
+				// Queue unavailable (e.g. lock timeout); the item is untouched
+				// and gets picked up on the next pass
+				logger.error(`Failed to claim item ${item.id}: ${errorMessage}`);
+				return;
+			}
+
+			try {
+				this.recordFailure(item, errorMessage);
+			} catch (recordError) {
+				// The lapsed lease returns the item to the queue
+				logger.error(
+					`Failed to record failure of item ${item.id}: ${recordError}`,
+				);
+			}
+		} finally {
+			clearInterval(heartbeat);
+		}
+	}
+
+	/**
+	 * Schedule a retry for a failed item, or dead-letter it on its last attempt
+	 */
+	private recordFailure(item: QueueItem, errorMessage: string): void {
+		const attempt = (item.retryCount ?? 0) + 1;
+
+		if (attempt >= this.config.queue.maxRetries) {
+			logger.error(
+				`Failed to process item ${item.id}: ${errorMessage} ` +
+					`(giving up after ${attempt} attempts, moved to dead-letter queue)`,
+			);
+			markAsDeadLetter(item.id, errorMessage);
+			return;
 		}
+
+		const retryDelay = computeRetryDelay(attempt, this.config.queue.retry);
+		logger.error(
+			`Failed to process item ${item.id}: ${errorMessage} ` +
+				`(retry in ${Math.round(retryDelay / 1000)}s)`,
+		);
+		markAsFailed(item.id, errorMessage, retryDelay);
 	}
 
 	/**
 	 * Process session stop event
 	 */
 	private async processSessionStop(item: SessionStopItem): Promise<void> {
-		// 1. Read transcript
-		const transcript = await parseTranscript(item.transcriptPath);
-		if (transcript.length === 0) {
+		// Items queued for our own `claude -p` calls before the hooks knew
+		if (isChildSession(item.cwd)) {
+			logger.debug(`Skipping daemon LLM session ${item.sessionId}`);
+			return;
+		}
+
+		// 1. Read transcript (items queued before this point are covered by it)
+		const readAt = new Date();
+		const { entries, lineCount } = await parseTranscriptLines(
+			item.transcriptPath,
+		);
+		if (entries.length === 0) {
 			logger.warn(`Empty transcript: ${item.transcriptPath}`);
 			return;
 		}
 
-		// 2. Filter noise
-		const filtered = filterNoise(transcript);
-		if (filtered.length === 0) {
-			logger.warn("No content after filtering");
+		// 2. Split into already-synced and new lines
+		const state = getSessionState(item.sessionId);
+		// A transcript shorter than what we synced was rewritten; start over
+		const syncedLines =
+			state && state.syncedLineCount <= lineCount ? state.syncedLineCount : 0;
+		const newEntries = entries
+			.filter((numbered) => numbered.line >= syncedLines)
+			.map((numbered) => numbered.entry);
+
+		// 3. Filter noise
+		const newContent = extractContent(filterNoise(newEntries));
+		if (newContent.userMessages.length === 0) {
+			// Leave the offset alone so these lines join the next sync
+			logger.info(`No new requests in session ${item.sessionId} since last sync`);
 			return;
 		}
 
-		// 3. Extract content
+		const filtered = filterNoise(entries.map((numbered) => numbered.entry));
+
+		// 4. Extract content (whole session, for matching)
 		const content = extractContent(filtered);
 
-		// 4. Find or create Linear issue
-		let issueId = await findMatchingIssue(content, item.cwd);
+		// 5. Find or create Linear issue (reusing the session's mapping)
+		const resolution = await this.resolveSessionIssue(item, content, state);
+		if (resolution.status === "parked") {
+			// Offset stays put so the whole session syncs once reviewed
+			return;
+		}
+		if (resolution.status === "failed") {
+			logger.error("Failed to create issue");
+			return;
+		}
 
-		if (!issueId) {
+		const issueId = resolution.identifier;
+
+		logger.info(`Using issue: ${issueId}`);
+
+		// 6. Ensure issue is assigned and has correct status
+		await this.ensureIssueSetup(issueId, item.cwd, newContent);
+
+		// 7. Summarize only what is new since the last sync
+		const summary = await summarizeSession(newContent, this.llmClient);
+
+		// 8. Post to Linear
+		const isUpdate = syncedLines > 0;
+		const commentId = await this.linearClient.addComment(
+			issueId,
+			this.formatComment(summary, newContent, item.sessionId, isUpdate),
+		);
+		if (!commentId) {
+			throw new Error(`Failed to post comment to ${issueId}`);
+		}
+		logger.info(`Posted comment to ${issueId}`);
+
+		// 9. Record the comment, synced offset and what the session worked on
+		updateSessionState(item.sessionId, (current) => ({
+			...current,
+			transcriptPath: item.transcriptPath,
+			cwd: item.cwd,
+			filePaths: content.filePaths.slice(-MAX_HISTORY_FILE_PATHS),
+			commentIds: [...current.commentIds, commentId],
+			syncedLineCount: lineCount,
+			syncCount: current.syncCount + 1,
+			lastSyncedAt: new Date().toISOString(),
+		}));
+
+		// 10. Only now fold the other waiting items into this sync; had it
+		// failed, they would still be queued to retry on their own
+		this.coalesceSessionItems(item, readAt);
+	}
+
+	/**
+	 * Determine the issue for a session
+	 *
+	 * Order: a manual link, then the issue ID in the branch name, then the
+	 * issue this session was already linked to, then PR/branch attachments,
+	 * then fuzzy matching, then a new issue. Uncertain fuzzy matches park the
+	 * session for review instead of creating an issue. The result is
+	 * persisted right away so a retry or restart never creates a second
+	 * issue for the same session.
+	 */
+	private async resolveSessionIssue(
+		item: SessionStopItem,
+		content: {
+			userMessages: string[];
+			assistantMessages: string[];
+			gitBranch?: string;
+			filePaths?: string[];
+		},
+		state: SessionState | null,
+	): Promise<SessionIssueResolution> {
+		if (state?.resolvedBy === "manual" && state.issueIdentifier) {
+			logger.info(
+				`Using manually linked ${state.issueIdentifier} for session ${item.sessionId}`,
+			);
+			return { status: "resolved", identifier: state.issueIdentifier };
+		}
+
+		const branchIssueId = content.gitBranch
+			? extractIssueIdFromBranch(content.gitBranch)
+			: null;
+
+		if (!branchIssueId && state?.issueIdentifier) {
+			logger.info(
+				`Reusing ${state.issueIdentifier} for session ${item.sessionId} ` +
+					`(resolved by ${state.resolvedBy})`,
+			);
+			return { status: "resolved", identifier: state.issueIdentifier };
+		}
+
+		let identifier: string | null = branchIssueId;
+		let resolvedBy: IssueResolutionMethod = "branch";
+
+		// A branch naming the issue settles a pending review too
+		const review = getPendingReview(item.sessionId);
+		if (!branchIssueId && review && review.decision !== "create") {
+			logger.info(`Session ${item.sessionId} is awaiting match review`);
+			return { status: "parked" };
+		}
+
+		if (!identifier && !review) {
+			const outcome = await findMatchingIssue(
+				{ ...content, sessionId: item.sessionId },
+				item.cwd,
+				this.getMatcherConfig(),
+				this.getMatchOptions(),
+			);
+
+			if (outcome.status === "matched") {
+				identifier = outcome.identifier;
+				resolvedBy = outcome.matchedBy;
+			} else if (
+				outcome.status === "review" ||
+				outcome.status === "ambiguous"
+			) {
+				// Ambiguous matches comment on neither candidate until reviewed
+				this.parkForReview(
+					item,
+					outcome.candidates,
+					outcome.status === "review" ? "uncertain" : "ambiguous",
+				);
+				return { status: "parked" };
+			}
+		}
+
+		if (!identifier) {
 			// Create new issue
 			logger.info("No matching issue found, creating new one...");
-			issueId = await this.createIssueFromSession(content, item.cwd);
+			identifier = await this.createIssueFromSession(content, item.cwd);
+			resolvedBy = "created";
+		}
 
-			if (!issueId) {
-				logger.error("Failed to create issue");
-				return;
-			}
+		if (!identifier) {
+			return { status: "failed" };
 		}
 
-		logger.info(`Using issue: ${issueId}`);
+		if (identifier !== state?.issueIdentifier) {
+			this.linkSession(item.sessionId, item.transcriptPath, identifier, resolvedBy);
+		}
+		if (review) {
+			removePendingReview(item.sessionId);
+		}
 
-		// 5. Ensure issue is assigned and has correct status
-		await this.ensureIssueSetup(issueId, item.cwd, content);
+		return { status: "resolved", identifier };
+	}
 
-		// 6. Summarize session
-		const summary = await summarizeSession(content);
+	/**
+	 * Save an uncertain or ambiguous match for `matches review`
+	 */
+	private parkForReview(
+		item: SessionStopItem,
+		candidates: MatchResult[],
+		reason: PendingReview["reason"],
+	): void {
+		const top = candidates.slice(0, MAX_REVIEW_CANDIDATES);
+
+		savePendingReview({
+			sessionId: item.sessionId,
+			transcriptPath: item.transcriptPath,
+			cwd: item.cwd,
+			reason,
+			candidates: top.map((match) => ({
+				identifier: match.issue.identifier,
+				title: match.issue.title,
+				url: match.issue.url,
+				stateName: match.issue.state.name,
+				confidence: match.confidence,
+				keywordScore: match.details.keywordScore,
+				semanticScore: match.details.semanticScore,
+				matchedKeywords: match.details.matchedKeywords,
+				reasoning: match.details.reasoning,
+			})),
+		});
 
-		// 7. Post to Linear
-		await this.linearClient.addComment(
-			issueId,
-			this.formatComment(summary, content),
+		logger.warn(
+			`Parked ${reason} session ${item.sessionId} for review ` +
+				`(best: ${top[0].issue.identifier} at ${(top[0].confidence * 100).toFixed(1)}%)`,
 		);
-		logger.info(`Posted comment to ${issueId}`);
+	}
+
+	/**
+	 * Matcher settings from the config file
+	 */
+	private getMatcherConfig(): Partial<HybridMatcherConfig> {
+		return toMatcherConfig(this.config.matching);
+	}
+
+	/**
+	 * Matching stages enabled in the config file
+	 */
+	private getMatchOptions(): FindMatchingIssueOptions {
+		const matching = this.config.matching;
+		return {
+			useIndex: matching.index.enabled,
+			useAttachments: matching.attachments.enabled,
+			lookupOpenPr: matching.attachments.lookupOpenPr,
+			filter: matching.filters,
+			llmClient: this.llmClient,
+		};
+	}
+
+	/**
+	 * Persist the session → issue mapping
+	 */
+	private linkSession(
+		sessionId: string,
+		transcriptPath: string,
+		issueIdentifier: string,
+		resolvedBy: IssueResolutionMethod,
+	): void {
+		updateSessionState(sessionId, (current) => ({
+			...current,
+			transcriptPath: transcriptPath || current.transcriptPath,
+			issueIdentifier,
+			resolvedBy,
+		}));
+		logger.debug(`Linked session ${sessionId} to ${issueIdentifier} (${resolvedBy})`);
+	}
+
+	/**
+	 * Mark other waiting session_stop items for the same session as
+	 * covered by this one's successful sync, so a session gets one sync
+	 * instead of N
+	 *
+	 * Items queued after the transcript was read may carry newer lines and
+	 * are left to sync on their own.
+	 */
+	private coalesceSessionItems(item: SessionStopItem, readAt: Date): void {
+		const siblings = readAllItems().filter(
+			(other): other is SessionStopItem =>
+				isSessionStopItem(other) &&
+				other.sessionId === item.sessionId &&
+				other.id !== item.id &&
+				new Date(other.timestamp) <= readAt,
+		);
+
+		let coalesced = 0;
+		for (const sibling of siblings) {
+			if (markAsCoalesced(sibling.id, item.id)) {
+				coalesced++;
+			}
+		}
+
+		if (coalesced > 0) {
+			logger.info(
+				`Coalesced ${coalesced} queued items for session ${item.sessionId}`,
+			);
+		}
 	}
 
 	/**
@@ -413,8 +893,22 @@ export class QueueProcessor {
 	 * Process PR created event
 	 */
 	private async processPrCreated(item: PrCreatedItem): Promise<void> {
-		// Find matching Linear issue
-		let issueId = await findMatchingIssue(null, item.cwd);
+		// Prefer the issue this session was already synced to
+		let issueId = getSessionState(item.sessionId)?.issueIdentifier ?? null;
+		if (!issueId) {
+			const outcome = await findMatchingIssue(
+				{
+					sessionId: item.sessionId,
+					userMessages: [],
+					assistantMessages: [],
+					prUrl: item.prUrl,
+				},
+				item.cwd,
+				this.getMatcherConfig(),
+				this.getMatchOptions(),
+			);
+			issueId = outcome.status === "matched" ? outcome.identifier : null;
+		}
 
 		const teamId = this.cachedTeamId;
 		if (!issueId && teamId) {
@@ -427,6 +921,10 @@ export class QueueProcessor {
 				assigneeId: this.cachedUserId ?? undefined,
 			});
 			issueId = issue?.identifier ?? null;
+
+			if (issueId) {
+				this.linkSession(item.sessionId, "", issueId, "created");
+			}
 		}
 
 		if (!issueId) {
@@ -453,10 +951,16 @@ export class QueueProcessor {
 	private formatComment(
 		summary: string,
 		content: { userMessages: string[]; assistantMessages: string[] },
+		sessionId: string,
+		isUpdate: boolean,
 	): string {
 		const lines: string[] = [];
 
-		lines.push("## Claude Code Session Summary");
+		lines.push(
+			isUpdate
+				? "## Claude Code Session Update"
+				: "## Claude Code Session Summary",
+		);
 		lines.push("");
 		lines.push(summary);
 		lines.push("");
@@ -467,6 +971,8 @@ export class QueueProcessor {
 			const truncated = msg.length > 200 ? msg.slice(0, 200) + "..." : msg;
 			lines.push(`- ${truncated}`);
 		}
+		lines.push("");
+		lines.push(`_Session: ${sessionId}_`);
 
 		return lines.join("\n");
 	}
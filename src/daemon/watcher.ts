@@ -3,14 +3,18 @@ import { readFileSync, statSync } from "fs";
 import { basename } from "path";
 import type { Config } from "../utils/config.js";
 import { logger } from "../utils/logger.js";
+import { isChildSession } from "../utils/child-session.js";
 import { parseSessionLogLine, type SessionLogEntry } from "./parser.js";
 import { LinearClient } from "../linear/client.js";
 import {
   HybridMatcher,
+  IndexedIssueSource,
   extractSessionContent,
+  toMatcherConfig,
   type MatchResult,
 } from "../matching/index.js";
-import { LLMClient } from "../llm/client.js";
+import { createLLMClient } from "../llm/client.js";
+import { getSessionState, updateSessionState } from "../state/index.js";
 
 /**
  * Watches Claude Code session logs and syncs to Linear
@@ -28,23 +32,23 @@ export class SessionWatcher {
 
   constructor(config: Config) {
     this.config = config;
-    this.linearClient = new LinearClient();
+    this.linearClient = new LinearClient(undefined, config.matching.filters);
 
     // Initialize hybrid matcher if enabled
     if (config.matching?.enabled) {
-      // LLMClient uses `claude -p` command, no API key required
-      const llmClient = config.matching.enableSemantic ? new LLMClient() : null;
+      const llmClient = config.matching.enableSemantic
+        ? createLLMClient(config.llm, logger)
+        : null;
 
       this.hybridMatcher = new HybridMatcher(
-        this.linearClient,
+        config.matching.index.enabled
+          ? new IndexedIssueSource(
+              this.linearClient,
+              config.matching.filters,
+            )
+          : this.linearClient,
         llmClient,
-        {
-          keywordWeight: config.matching.keywordWeight,
-          semanticWeight: config.matching.semanticWeight,
-          confidenceThreshold: config.matching.confidenceThreshold,
-          maxCandidates: 10,
-          enableSemantic: config.matching.enableSemantic,
-        },
+        { ...toMatcherConfig(config.matching), maxCandidates: 10 },
         config.matching.maxApiCallsPerMinute,
       );
 
@@ -144,7 +148,8 @@ export class SessionWatcher {
   private async processLogLine(_filePath: string, line: string): Promise<void> {
     const entry = parseSessionLogLine(line);
 
-    if (!entry) {
+    // Drop the daemon's own `claude -p` sessions
+    if (!entry || isChildSession(entry.cwd)) {
       return;
     }
 
@@ -161,8 +166,14 @@ export class SessionWatcher {
     const gitBranch =
       entry.gitBranch || this.sessionBranches.get(entry.sessionId);
 
-    // Try to extract Linear issue ID from branch name first
-    let issueId = gitBranch ? this.extractIssueId(gitBranch) : null;
+    // A manual link wins, then the Linear issue ID in the branch name
+    const state = getSessionState(entry.sessionId);
+    let issueId =
+      state?.resolvedBy === "manual" && state.issueIdentifier
+        ? state.issueIdentifier
+        : gitBranch
+          ? this.extractIssueId(gitBranch)
+          : null;
 
     // Fallback to fuzzy matching if no issue ID found
     if (!issueId && this.hybridMatcher) {
@@ -193,6 +204,12 @@ export class SessionWatcher {
       return cached?.issue.identifier ?? null;
     }
 
+    // Reuse a mapping persisted by an earlier run
+    const stored = getSessionState(sessionId)?.issueIdentifier;
+    if (stored) {
+      return stored;
+    }
+
     const entries = this.sessionEntries.get(sessionId) || [];
 
     // Wait for at least 2 entries to have enough context
@@ -201,19 +218,35 @@ export class SessionWatcher {
     }
 
     try {
-      const content = extractSessionContent(entries);
+      const content = { ...extractSessionContent(entries), sessionId };
 
       // Skip if primary request is too short
       if (content.primaryRequest.length < 20) {
         return null;
       }
 
-      const result = await this.hybridMatcher!.findMatch(content);
+      const decision = await this.hybridMatcher!.decide(content);
+
+      // Leave ties uncached so more context can settle them
+      if (decision.status === "ambiguous") {
+        logger.warn(
+          `Ambiguous match for session ${sessionId} ` +
+            `(best: ${decision.candidates[0].issue.identifier}), not linking`,
+        );
+        return null;
+      }
+
+      const result = decision.status === "matched" ? decision.match : null;
 
       // Cache the result
       this.matchCache.set(sessionId, result);
 
       if (result) {
+        updateSessionState(sessionId, (current) => ({
+          ...current,
+          issueIdentifier: result.issue.identifier,
+          resolvedBy: "fuzzy",
+        }));
         logger.info(
           `Auto-matched session to ${result.issue.identifier} ` +
             `(confidence: ${(result.confidence * 100).toFixed(1)}%, type: ${result.matchType})`,
@@ -0,0 +1,21 @@
+#!/usr/bin/env node
+/**
+ * Slim entrypoint for Claude Code hooks: `claude-linear-sync-hook <name>`
+ *
+ * Imports only the hook handlers and the queue store, not the CLI with its
+ * matching, Linear and LLM modules, so a hook costs little more than
+ * starting node.
+ */
+import { HOOK_NAMES, runHook, type HookName } from "./hooks/index.js";
+import { logger } from "./utils/logger.js";
+
+const name = process.argv[2];
+
+if (!HOOK_NAMES.includes(name as HookName)) {
+  logger.error(
+    `Usage: claude-linear-sync-hook <${HOOK_NAMES.join("|")}> (got ${name ?? "nothing"})`,
+  );
+  process.exit(1);
+}
+
+await runHook(name as HookName);
@@ -0,0 +1,4 @@
+export * from "./input.js";
+export * from "./stop.js";
+export * from "./post-tool-use.js";
+export * from "./run.js";
@@ -0,0 +1,32 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { Readable } from "stream";
+import { readHookInput } from "./input.js";
+
+describe("readHookInput", () => {
+  test("parses the payload across chunks", async () => {
+    const input = await readHookInput(
+      Readable.from(['{"session_id": "s1", ', '"cwd": "/repo"}\n']),
+    );
+
+    assert.deepEqual(input, { session_id: "s1", cwd: "/repo" });
+  });
+
+  test("rejects empty stdin", async () => {
+    await assert.rejects(
+      readHookInput(Readable.from(["  \n"])),
+      /No hook input received/,
+    );
+  });
+
+  test("rejects invalid JSON", async () => {
+    await assert.rejects(readHookInput(Readable.from(["{session"])), SyntaxError);
+  });
+
+  test("rejects a payload without session_id or cwd", async () => {
+    await assert.rejects(
+      readHookInput(Readable.from(['{"session_id": "s1"}'])),
+      /missing session_id or cwd/,
+    );
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Common fields sent by Claude Code to every hook on stdin
+ */
+export interface BaseHookInput {
+  session_id: string;
+  transcript_path: string;
+  cwd: string;
+  hook_event_name: string;
+}
+
+/**
+ * Stop hook input
+ */
+export interface StopHookInput extends BaseHookInput {
+  hook_event_name: "Stop";
+  stop_hook_active?: boolean;
+}
+
+/**
+ * PostToolUse hook input
+ */
+export interface PostToolUseHookInput extends BaseHookInput {
+  hook_event_name: "PostToolUse";
+  tool_name: string;
+  tool_input: Record<string, unknown>;
+  tool_response?: unknown;
+}
+
+/**
+ * Reads and parses the hook JSON payload from stdin
+ */
+export async function readHookInput<T extends BaseHookInput>(
+  stdin: AsyncIterable<Buffer | string> = process.stdin,
+): Promise<T> {
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of stdin) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+  }
+
+  const raw = Buffer.concat(chunks).toString("utf-8").trim();
+  if (!raw) {
+    throw new Error("No hook input received on stdin");
+  }
+
+  const parsed = JSON.parse(raw) as T;
+  if (!parsed.session_id || !parsed.cwd) {
+    throw new Error("Hook input is missing session_id or cwd");
+  }
+
+  return parsed;
+}
@@ -0,0 +1,104 @@
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { PostToolUseHookInput } from "./input.js";
+
+describe("handlePostToolUseHook", () => {
+  const prUrl = "https://github.com/acme/app/pull/42";
+
+  let home: string;
+  let originalHome: string | undefined;
+  let hooks: typeof import("./post-tool-use.js");
+  let queue: typeof import("../queue/index.js");
+  let childSessionCwd: string;
+
+  before(async () => {
+    // The queue file lives under the home directory, resolved at import time
+    originalHome = process.env.HOME;
+    home = mkdtempSync(join(tmpdir(), "hook-post-tool-use-"));
+    process.env.HOME = home;
+    hooks = await import("./post-tool-use.js");
+    queue = await import("../queue/index.js");
+    ({ CHILD_SESSION_CWD: childSessionCwd } = await import(
+      "../utils/child-session.js"
+    ));
+  });
+
+  beforeEach(() => {
+    queue.getQueueStore().removeWhere(() => true);
+  });
+
+  after(() => {
+    process.env.HOME = originalHome;
+    rmSync(home, { recursive: true, force: true });
+  });
+
+  function input(
+    overrides: Partial<PostToolUseHookInput> = {},
+  ): PostToolUseHookInput {
+    return {
+      session_id: "s1",
+      transcript_path: "/tmp/s1.jsonl",
+      cwd: "/repo",
+      hook_event_name: "PostToolUse",
+      tool_name: "Bash",
+      tool_input: { command: "gh pr create --fill" },
+      tool_response: `Creating pull request\n${prUrl}\n`,
+      ...overrides,
+    };
+  }
+
+  test("queues a pr_created item with the URL from the output", () => {
+    const item = hooks.handlePostToolUseHook(input());
+
+    assert.ok(item?.type === "pr_created");
+    assert.equal(item.prUrl, prUrl);
+    assert.equal(item.status, "pending");
+    assert.equal(item.sessionId, "s1");
+    assert.equal(item.cwd, "/repo");
+    assert.deepEqual(queue.readAllItems(), [item]);
+  });
+
+  test("finds the URL in a structured tool response", () => {
+    const item = hooks.handlePostToolUseHook(
+      input({ tool_response: { stdout: `${prUrl}\n`, stderr: "" } }),
+    );
+
+    assert.ok(item?.type === "pr_created");
+    assert.equal(item.prUrl, prUrl);
+  });
+
+  test("skips other tools and commands", () => {
+    assert.equal(
+      hooks.handlePostToolUseHook(input({ tool_name: "Edit" })),
+      null,
+    );
+    assert.equal(
+      hooks.handlePostToolUseHook(
+        input({ tool_input: { command: "gh pr view 42" } }),
+      ),
+      null,
+    );
+    assert.deepEqual(queue.readAllItems(), []);
+  });
+
+  test("skips a response without a PR URL", () => {
+    for (const response of [undefined, "", "pull request create failed"]) {
+      assert.equal(
+        hooks.handlePostToolUseHook(input({ tool_response: response })),
+        null,
+      );
+    }
+    assert.deepEqual(queue.readAllItems(), []);
+  });
+
+  test("skips the daemon's own sessions", () => {
+    assert.equal(
+      hooks.handlePostToolUseHook(input({ cwd: childSessionCwd })),
+      null,
+    );
+    assert.deepEqual(queue.readAllItems(), []);
+  });
+});
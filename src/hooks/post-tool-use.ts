@@ -0,0 +1,51 @@
+import { appendItem } from "../queue/writer.js";
+import type { QueueItem } from "../queue/types.js";
+import { isChildSession } from "../utils/child-session.js";
+import type { PostToolUseHookInput } from "./input.js";
+
+const PR_URL_PATTERN = /https:\/\/github\.com\/[^/\s]+\/[^/\s]+\/pull\/\d+/;
+
+/**
+ * Enqueues a pr_created item when a `gh pr create` Bash call succeeds
+ */
+export function handlePostToolUseHook(
+  input: PostToolUseHookInput,
+): QueueItem | null {
+  if (input.tool_name !== "Bash" || isChildSession(input.cwd, process.env)) {
+    return null;
+  }
+
+  const command = input.tool_input?.command;
+  if (typeof command !== "string" || !command.includes("gh pr create")) {
+    return null;
+  }
+
+  const prUrl = extractPrUrl(input.tool_response);
+  if (!prUrl) {
+    return null;
+  }
+
+  return appendItem({
+    type: "pr_created",
+    sessionId: input.session_id,
+    prUrl,
+    cwd: input.cwd,
+  });
+}
+
+/**
+ * Finds the PR URL printed by `gh pr create`
+ */
+function extractPrUrl(toolResponse: unknown): string | null {
+  if (!toolResponse) {
+    return null;
+  }
+
+  const text =
+    typeof toolResponse === "string"
+      ? toolResponse
+      : JSON.stringify(toolResponse);
+  const match = text.match(PR_URL_PATTERN);
+
+  return match ? match[0] : null;
+}
@@ -0,0 +1,37 @@
+import { logger } from "../utils/logger.js";
+import {
+  readHookInput,
+  type PostToolUseHookInput,
+  type StopHookInput,
+} from "./input.js";
+import { handlePostToolUseHook } from "./post-tool-use.js";
+import { handleStopHook } from "./stop.js";
+
+/**
+ * Hook names accepted on the command line
+ */
+export const HOOK_NAMES = ["stop", "post-tool-use"] as const;
+
+export type HookName = (typeof HOOK_NAMES)[number];
+
+/**
+ * Reads the hook payload from stdin and enqueues its item
+ *
+ * Exits with code 1 on failure: a non-blocking error, so Claude Code shows
+ * stderr but carries on.
+ */
+export async function runHook(name: HookName): Promise<void> {
+  try {
+    switch (name) {
+      case "stop":
+        handleStopHook(await readHookInput<StopHookInput>());
+        break;
+      case "post-tool-use":
+        handlePostToolUseHook(await readHookInput<PostToolUseHookInput>());
+        break;
+    }
+  } catch (error) {
+    logger.error(`${name} hook failed: ${error}`);
+    process.exit(1);
+  }
+}
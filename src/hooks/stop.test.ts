@@ -0,0 +1,78 @@
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { StopHookInput } from "./input.js";
+
+describe("handleStopHook", () => {
+  let home: string;
+  let originalHome: string | undefined;
+  let hooks: typeof import("./stop.js");
+  let queue: typeof import("../queue/index.js");
+  let childSessionCwd: string;
+
+  before(async () => {
+    // The queue file lives under the home directory, resolved at import time
+    originalHome = process.env.HOME;
+    home = mkdtempSync(join(tmpdir(), "hook-stop-"));
+    process.env.HOME = home;
+    hooks = await import("./stop.js");
+    queue = await import("../queue/index.js");
+    ({ CHILD_SESSION_CWD: childSessionCwd } = await import(
+      "../utils/child-session.js"
+    ));
+  });
+
+  beforeEach(() => {
+    queue.getQueueStore().removeWhere(() => true);
+  });
+
+  after(() => {
+    process.env.HOME = originalHome;
+    rmSync(home, { recursive: true, force: true });
+  });
+
+  function input(overrides: Partial<StopHookInput> = {}): StopHookInput {
+    return {
+      session_id: "s1",
+      transcript_path: "/tmp/s1.jsonl",
+      cwd: "/repo",
+      hook_event_name: "Stop",
+      ...overrides,
+    };
+  }
+
+  test("queues a pending session_stop item", () => {
+    const item = hooks.handleStopHook(input());
+
+    assert.ok(item);
+    assert.match(item.id, /^[0-9a-f-]{36}$/);
+    assert.deepEqual(
+      { ...item, id: undefined, timestamp: undefined },
+      {
+        id: undefined,
+        type: "session_stop",
+        sessionId: "s1",
+        transcriptPath: "/tmp/s1.jsonl",
+        cwd: "/repo",
+        timestamp: undefined,
+        status: "pending",
+      },
+    );
+    assert.deepEqual(queue.readAllItems(), [item]);
+  });
+
+  test("skips payloads without a transcript", () => {
+    assert.equal(hooks.handleStopHook(input({ transcript_path: "" })), null);
+    assert.deepEqual(queue.readAllItems(), []);
+  });
+
+  test("skips the daemon's own sessions", () => {
+    assert.equal(
+      hooks.handleStopHook(input({ cwd: childSessionCwd })),
+      null,
+    );
+    assert.deepEqual(queue.readAllItems(), []);
+  });
+});
@@ -0,0 +1,21 @@
+import { appendItem } from "../queue/writer.js";
+import type { QueueItem } from "../queue/types.js";
+import { isChildSession } from "../utils/child-session.js";
+import type { StopHookInput } from "./input.js";
+
+/**
+ * Enqueues a session_stop item for the daemon
+ * (not for the daemon's own `claude -p` sessions)
+ */
+export function handleStopHook(input: StopHookInput): QueueItem | null {
+  if (!input.transcript_path || isChildSession(input.cwd, process.env)) {
+    return null;
+  }
+
+  return appendItem({
+    type: "session_stop",
+    sessionId: input.session_id,
+    transcriptPath: input.transcript_path,
+    cwd: input.cwd,
+  });
+}
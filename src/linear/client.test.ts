@@ -0,0 +1,160 @@
+import { afterEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  buildIssueFilter,
+  LinearClient,
+  matchesIssueFilter,
+  type LinearIssue,
+} from "./client.js";
+
+const NOW = Date.parse("2026-03-01T00:00:00Z");
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("matchesIssueFilter", () => {
+  const base: LinearIssue = {
+    id: "id-1",
+    identifier: "ENG-1",
+    title: "Fix login",
+    url: "https://linear.app/acme/issue/ENG-1",
+    state: { id: "state-1", name: "In Progress", type: "started" },
+    team: { id: "team-1", key: "ENG" },
+    assignee: { id: "me", name: "Me" },
+    updatedAt: new Date(NOW - 10 * DAY_MS).toISOString(),
+  };
+
+  test("passes everything without restrictions", () => {
+    assert.equal(matchesIssueFilter(base, {}, null, NOW), true);
+  });
+
+  test("applies every restriction together", () => {
+    const filter = {
+      teamKeys: ["ENG", "OPS"],
+      excludeStateTypes: ["completed", "canceled"],
+      assignedToMe: true,
+      updatedWithinDays: 30,
+    };
+
+    assert.equal(matchesIssueFilter(base, filter, "me", NOW), true);
+    assert.equal(
+      matchesIssueFilter(
+        { ...base, team: { id: "team-2", key: "WEB" } },
+        filter,
+        "me",
+        NOW,
+      ),
+      false,
+    );
+    assert.equal(
+      matchesIssueFilter(
+        { ...base, state: { id: "s", name: "Done", type: "completed" } },
+        filter,
+        "me",
+        NOW,
+      ),
+      false,
+    );
+    assert.equal(matchesIssueFilter(base, filter, "someone-else", NOW), false);
+    assert.equal(
+      matchesIssueFilter(
+        { ...base, updatedAt: new Date(NOW - 31 * DAY_MS).toISOString() },
+        filter,
+        "me",
+        NOW,
+      ),
+      false,
+    );
+  });
+
+  test("doesn't exclude issues for fields they don't carry", () => {
+    const bare: LinearIssue = {
+      ...base,
+      state: { id: "state-1", name: "In Progress" },
+      team: undefined,
+      assignee: undefined,
+      updatedAt: undefined,
+    };
+    const filter = {
+      teamKeys: ["OPS"],
+      excludeStateTypes: ["started"],
+      updatedWithinDays: 1,
+    };
+
+    assert.equal(matchesIssueFilter(bare, filter, "me", NOW), true);
+    // Without a known viewer, "assigned to me" can't be checked
+    assert.equal(
+      matchesIssueFilter(bare, { assignedToMe: true }, null, NOW),
+      true,
+    );
+  });
+});
+
+describe("buildIssueFilter", () => {
+  test("is empty without restrictions", () => {
+    assert.deepEqual(buildIssueFilter({}, NOW), {});
+    assert.deepEqual(
+      buildIssueFilter(
+        { teamKeys: [], excludeStateTypes: [], updatedWithinDays: 0 },
+        NOW,
+      ),
+      {},
+    );
+  });
+
+  test("translates every restriction", () => {
+    assert.deepEqual(
+      buildIssueFilter(
+        {
+          teamKeys: ["ENG"],
+          excludeStateTypes: ["completed"],
+          assignedToMe: true,
+          updatedWithinDays: 7,
+        },
+        NOW,
+      ),
+      {
+        team: { key: { in: ["ENG"] } },
+        state: { type: { nin: ["completed"] } },
+        assignee: { isMe: { eq: true } },
+        updatedAt: { gt: new Date(NOW - 7 * DAY_MS).toISOString() },
+      },
+    );
+  });
+});
+
+describe("LinearClient.getRecentIssues", () => {
+  const originalFetch = globalThis.fetch;
+  let requests: { filter: Record<string, unknown> }[] = [];
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    requests = [];
+  });
+
+  function stubFetch(): void {
+    globalThis.fetch = async (_url, init) => {
+      requests.push(JSON.parse(String(init?.body)).variables);
+      return new Response(JSON.stringify({ data: { issues: { nodes: [] } } }));
+    };
+  }
+
+  test("asks only for the active states left after the filter", async () => {
+    stubFetch();
+    const client = new LinearClient("key", { excludeStateTypes: ["unstarted"] });
+
+    await client.getRecentIssues();
+
+    assert.deepEqual(requests[0].filter, {
+      state: { type: { in: ["started"] } },
+    });
+  });
+
+  test("skips the query when every active state is excluded", async () => {
+    stubFetch();
+    const client = new LinearClient("key", {
+      excludeStateTypes: ["started", "unstarted"],
+    });
+
+    assert.deepEqual(await client.getRecentIssues(), []);
+    assert.deepEqual(requests, []);
+  });
+});
@@ -9,11 +9,25 @@ export interface LinearIssue {
 	state: {
 		id: string;
 		name: string;
+		/** Workflow state type: triage, backlog, unstarted, started, completed, canceled */
+		type?: string;
+	};
+	team?: {
+		id: string;
+		key: string;
 	};
 	assignee?: {
 		id: string;
 		name: string;
 	};
+	project?: {
+		id: string;
+		name: string;
+	};
+	/** ISO timestamp of the last update */
+	updatedAt?: string;
+	/** 0 = none, 1 = urgent … 4 = low */
+	priority?: number;
 	labels?: {
 		id: string;
 		name: string;
@@ -21,6 +35,15 @@ export interface LinearIssue {
 	url: string;
 }
 
+/**
+ * Linear comment with the issue it belongs to
+ */
+export interface LinearComment {
+	id: string;
+	body: string;
+	issueIdentifier: string;
+}
+
 /**
  * Linear label type
  */
@@ -56,14 +79,170 @@ export interface LinearUser {
 	email?: string;
 }
 
+/**
+ * Restrictions on the issues offered as match candidates
+ */
+export interface IssueFilterOptions {
+	/** Team keys (e.g. ENG); empty means every team */
+	teamKeys?: string[];
+	/** Workflow state types to leave out (e.g. completed, canceled) */
+	excludeStateTypes?: string[];
+	/** Only issues assigned to the API key's user */
+	assignedToMe?: boolean;
+	/** Only issues updated within this many days (0 = no limit) */
+	updatedWithinDays?: number;
+}
+
+// State types getRecentIssues treats as active work
+const ACTIVE_STATE_TYPES = ["started", "unstarted"];
+
+// Issue fields selected by every issue query (spread as `...IssueFields`)
+const ISSUE_FIELDS_FRAGMENT = `
+  fragment IssueFields on Issue {
+    id
+    identifier
+    title
+    description
+    url
+    updatedAt
+    priority
+    project {
+      id
+      name
+    }
+    team {
+      id
+      key
+    }
+    state {
+      id
+      name
+      type
+    }
+    assignee {
+      id
+      name
+    }
+    labels {
+      nodes {
+        id
+        name
+      }
+    }
+  }
+`;
+
+/**
+ * Issue node as returned for `IssueFields`
+ */
+interface RawIssueNode {
+	id: string;
+	identifier: string;
+	title: string;
+	description?: string;
+	url: string;
+	updatedAt?: string;
+	priority?: number;
+	project?: { id: string; name: string };
+	team?: { id: string; key: string };
+	state: { id: string; name: string; type?: string };
+	assignee?: { id: string; name: string };
+	labels: { nodes: { id: string; name: string }[] };
+}
+
+/**
+ * Flattens the label connection of an issue node
+ */
+function toLinearIssue(node: RawIssueNode): LinearIssue {
+	const { labels, ...issue } = node;
+	return { ...issue, labels: labels?.nodes };
+}
+
+/**
+ * Whether an issue passes the filter, for issues already fetched
+ *
+ * Fields an issue doesn't carry (e.g. from an index synced before they were
+ * fetched) don't exclude it.
+ */
+export function matchesIssueFilter(
+	issue: LinearIssue,
+	filter: IssueFilterOptions,
+	viewerId: string | null,
+	now: number = Date.now(),
+): boolean {
+	if (
+		filter.teamKeys?.length &&
+		issue.team &&
+		!filter.teamKeys.includes(issue.team.key)
+	) {
+		return false;
+	}
+
+	if (
+		filter.excludeStateTypes?.length &&
+		issue.state.type &&
+		filter.excludeStateTypes.includes(issue.state.type)
+	) {
+		return false;
+	}
+
+	if (filter.assignedToMe && viewerId && issue.assignee?.id !== viewerId) {
+		return false;
+	}
+
+	if (filter.updatedWithinDays && issue.updatedAt) {
+		const ageDays =
+			(now - new Date(issue.updatedAt).getTime()) / (1000 * 60 * 60 * 24);
+		if (ageDays > filter.updatedWithinDays) {
+			return false;
+		}
+	}
+
+	return true;
+}
+
+/**
+ * GraphQL IssueFilter applying the same restrictions on the API side
+ */
+export function buildIssueFilter(
+	filter: IssueFilterOptions,
+	now: number = Date.now(),
+): Record<string, unknown> {
+	const { teamKeys, excludeStateTypes, assignedToMe, updatedWithinDays } =
+		filter;
+	const issueFilter: Record<string, unknown> = {};
+
+	if (teamKeys?.length) {
+		issueFilter.team = { key: { in: teamKeys } };
+	}
+	if (excludeStateTypes?.length) {
+		issueFilter.state = { type: { nin: excludeStateTypes } };
+	}
+	if (assignedToMe) {
+		issueFilter.assignee = { isMe: { eq: true } };
+	}
+	if (updatedWithinDays) {
+		const since = new Date(now - updatedWithinDays * 24 * 60 * 60 * 1000);
+		issueFilter.updatedAt = { gt: since.toISOString() };
+	}
+
+	return issueFilter;
+}
+
 /**
  * Client for Linear GraphQL API
  */
 export class LinearClient {
 	private apiKey: string;
 	private baseUrl = "https://api.linear.app/graphql";
+	private issueFilter: IssueFilterOptions;
 
-	constructor(apiKey?: string) {
+	/**
+	 * `issueFilter` narrows the candidates from searchIssues and
+	 * getRecentIssues
+	 */
+	constructor(apiKey?: string, issueFilter: IssueFilterOptions = {}) {
+		this.issueFilter = issueFilter;
 		this.apiKey = apiKey || process.env.LINEAR_API_KEY || "";
 		if (!this.apiKey) {
 			console.warn(
@@ -129,48 +308,19 @@ export class LinearClient {
 			const query = `
         query GetIssue($identifier: String!) {
           issue(id: $identifier) {
-            id
-            identifier
-            title
-            description
-            url
-            state {
-              id
-              name
-            }
-            assignee {
-              id
-              name
-            }
-            labels {
-              nodes {
-                id
-                name
-              }
-            }
+            ...IssueFields
           }
         }
+        ${ISSUE_FIELDS_FRAGMENT}
       `;
 
 			const data = await this.executeGraphQL<{
-				issue: {
-					id: string;
-					identifier: string;
-					title: string;
-					description?: string;
-					url: string;
-					state: { id: string; name: string };
-					assignee?: { id: string; name: string };
-					labels: { nodes: { id: string; name: string }[] };
-				};
+				issue: RawIssueNode;
 			}>(query, { identifier });
 
 			if (!data.issue) return null;
 
-			return {
-				...data.issue,
-				labels: data.issue.labels?.nodes,
-			};
+			return toLinearIssue(data.issue);
 		} catch (error) {
 			console.error("Failed to fetch issue:", error);
 			return null;
@@ -183,52 +333,27 @@ export class LinearClient {
 	async searchIssues(searchQuery: string): Promise<LinearIssue[]> {
 		try {
 			const query = `
-        query SearchIssues($searchQuery: String!, $first: Int!) {
-          issueSearch(query: $searchQuery, first: $first) {
+        query SearchIssues($searchQuery: String!, $first: Int!, $filter: IssueFilter) {
+          issueSearch(query: $searchQuery, first: $first, filter: $filter) {
             nodes {
-              id
-              identifier
-              title
-              description
-              url
-              state {
-                id
-                name
-              }
-              assignee {
-                id
-                name
-              }
-              labels {
-                nodes {
-                  id
-                  name
-                }
-              }
+              ...IssueFields
             }
           }
         }
+        ${ISSUE_FIELDS_FRAGMENT}
       `;
 
 			const data = await this.executeGraphQL<{
 				issueSearch: {
-					nodes: {
-						id: string;
-						identifier: string;
-						title: string;
-						description?: string;
-						url: string;
-						state: { id: string; name: string };
-						assignee?: { id: string; name: string };
-						labels: { nodes: { id: string; name: string }[] };
-					}[];
+					nodes: RawIssueNode[];
 				};
-			}>(query, { searchQuery, first: 10 });
+			}>(query, {
+				searchQuery,
+				first: 10,
+				filter: buildIssueFilter(this.issueFilter),
+			});
 
-			return data.issueSearch.nodes.map((issue) => ({
-				...issue,
-				labels: issue.labels?.nodes,
-			}));
+			return data.issueSearch.nodes.map(toLinearIssue);
 		} catch (error) {
 			console.error("Failed to search issues:", error);
 			return [];
@@ -239,86 +364,245 @@ export class LinearClient {
 	 * Fetches recent active issues for matching
 	 */
 	async getRecentIssues(limit: number = 20): Promise<LinearIssue[]> {
+		const stateTypes = ACTIVE_STATE_TYPES.filter(
+			(type) => !this.issueFilter.excludeStateTypes?.includes(type),
+		);
+		if (stateTypes.length === 0) {
+			// Every active state is excluded; `in: []` would match nothing anyway
+			return [];
+		}
+
 		try {
 			const query = `
-        query GetRecentIssues($first: Int!) {
-          issues(
-            first: $first
-            orderBy: updatedAt
-            filter: {
-              state: { type: { in: ["started", "unstarted"] } }
+        query GetRecentIssues($first: Int!, $filter: IssueFilter) {
+          issues(first: $first, orderBy: updatedAt, filter: $filter) {
+            nodes {
+              ...IssueFields
             }
-          ) {
+          }
+        }
+        ${ISSUE_FIELDS_FRAGMENT}
+      `;
+
+			const data = await this.executeGraphQL<{
+				issues: {
+					nodes: RawIssueNode[];
+				};
+			}>(query, {
+				first: limit,
+				filter: {
+					...buildIssueFilter(this.issueFilter),
+					state: { type: { in: stateTypes } },
+				},
+			});
+
+			return data.issues.nodes.map(toLinearIssue);
+		} catch (error) {
+			console.error("Failed to fetch recent issues:", error);
+			return [];
+		}
+	}
+
+	/**
+	 * Lists issues page by page, optionally only those updated after a time
+	 */
+	async listIssues(params: {
+		updatedAfter?: string;
+		after?: string;
+		first?: number;
+	}): Promise<{
+		issues: LinearIssue[];
+		endCursor: string | null;
+		hasNextPage: boolean;
+	} | null> {
+		try {
+			const query = `
+        query ListIssues($first: Int!, $after: String, $filter: IssueFilter) {
+          issues(first: $first, after: $after, filter: $filter, orderBy: updatedAt) {
             nodes {
-              id
-              identifier
-              title
-              description
-              url
-              state {
-                id
-                name
-              }
-              assignee {
-                id
-                name
-              }
-              labels {
-                nodes {
-                  id
-                  name
-                }
-              }
+              ...IssueFields
+            }
+            pageInfo {
+              endCursor
+              hasNextPage
             }
           }
         }
+        ${ISSUE_FIELDS_FRAGMENT}
       `;
 
+			const filter = params.updatedAfter
+				? { updatedAt: { gt: params.updatedAfter } }
+				: undefined;
+
 			const data = await this.executeGraphQL<{
 				issues: {
+					nodes: RawIssueNode[];
+					pageInfo: { endCursor: string | null; hasNextPage: boolean };
+				};
+			}>(query, { first: params.first ?? 100, after: params.after, filter });
+
+			return {
+				issues: data.issues.nodes.map(toLinearIssue),
+				endCursor: data.issues.pageInfo.endCursor,
+				hasNextPage: data.issues.pageInfo.hasNextPage,
+			};
+		} catch (error) {
+			console.error("Failed to list issues:", error);
+			return null;
+		}
+	}
+
+	/**
+	 * Fetches the issues an attachment URL (e.g. a GitHub PR) is attached to
+	 */
+	async findIssuesByAttachmentUrl(url: string): Promise<LinearIssue[]> {
+		try {
+			const query = `
+        query AttachmentsForUrl($url: String!) {
+          attachmentsForURL(url: $url) {
+            nodes {
+              issue {
+                ...IssueFields
+              }
+            }
+          }
+        }
+        ${ISSUE_FIELDS_FRAGMENT}
+      `;
+
+			const data = await this.executeGraphQL<{
+				attachmentsForURL: {
 					nodes: {
-						id: string;
-						identifier: string;
-						title: string;
-						description?: string;
-						url: string;
-						state: { id: string; name: string };
-						assignee?: { id: string; name: string };
-						labels: { nodes: { id: string; name: string }[] };
+						issue: RawIssueNode;
 					}[];
 				};
-			}>(query, { first: limit });
+			}>(query, { url });
 
-			return data.issues.nodes.map((issue) => ({
-				...issue,
-				labels: issue.labels?.nodes,
-			}));
+			return data.attachmentsForURL.nodes
+				.filter((attachment) => attachment.issue)
+				.map((attachment) => toLinearIssue(attachment.issue));
 		} catch (error) {
-			console.error("Failed to fetch recent issues:", error);
+			console.error("Failed to fetch attachments:", error);
 			return [];
 		}
 	}
 
 	/**
-	 * Adds a comment to an issue
+	 * Fetches the issue linked to a git branch by the GitHub/GitLab integration
 	 */
-	async addComment(issueId: string, body: string): Promise<boolean> {
+	async findIssueByBranch(branchName: string): Promise<LinearIssue | null> {
+		try {
+			const query = `
+        query IssueForBranch($branchName: String!) {
+          issueVcsBranchSearch(branchName: $branchName) {
+            ...IssueFields
+          }
+        }
+        ${ISSUE_FIELDS_FRAGMENT}
+      `;
+
+			const data = await this.executeGraphQL<{
+				issueVcsBranchSearch: RawIssueNode | null;
+			}>(query, { branchName });
+
+			if (!data.issueVcsBranchSearch) return null;
+
+			return toLinearIssue(data.issueVcsBranchSearch);
+		} catch (error) {
+			console.error("Failed to search issue by branch:", error);
+			return null;
+		}
+	}
+
+	/**
+	 * Adds a comment to an issue, returning the new comment's ID
+	 */
+	async addComment(issueId: string, body: string): Promise<string | null> {
 		try {
 			const mutation = `
         mutation AddComment($issueId: String!, $body: String!) {
           commentCreate(input: { issueId: $issueId, body: $body }) {
             success
+            comment {
+              id
+            }
           }
         }
       `;
 
 			const data = await this.executeGraphQL<{
-				commentCreate: { success: boolean };
+				commentCreate: { success: boolean; comment?: { id: string } };
 			}>(mutation, { issueId, body });
 
-			return data.commentCreate.success;
+			if (!data.commentCreate.success) return null;
+
+			return data.commentCreate.comment?.id ?? null;
 		} catch (error) {
 			console.error("Failed to add comment:", error);
+			return null;
+		}
+	}
+
+	/**
+	 * Fetches a comment's body and the issue it belongs to
+	 *
+	 * @returns null if the comment doesn't exist; a failed lookup throws
+	 */
+	async getComment(commentId: string): Promise<LinearComment | null> {
+		try {
+			const query = `
+        query GetComment($commentId: String!) {
+          comment(id: $commentId) {
+            id
+            body
+            issue {
+              identifier
+            }
+          }
+        }
+      `;
+
+			const data = await this.executeGraphQL<{
+				comment: { id: string; body: string; issue: { identifier: string } };
+			}>(query, { commentId });
+
+			if (!data.comment) return null;
+
+			return {
+				id: data.comment.id,
+				body: data.comment.body,
+				issueIdentifier: data.comment.issue.identifier,
+			};
+		} catch (error) {
+			// Linear reports a deleted comment as a GraphQL error
+			if (error instanceof Error && /entity not found/i.test(error.message)) {
+				return null;
+			}
+			throw error;
+		}
+	}
+
+	/**
+	 * Deletes a comment
+	 */
+	async deleteComment(commentId: string): Promise<boolean> {
+		try {
+			const mutation = `
+        mutation DeleteComment($commentId: String!) {
+          commentDelete(id: $commentId) {
+            success
+          }
+        }
+      `;
+
+			const data = await this.executeGraphQL<{
+				commentDelete: { success: boolean };
+			}>(mutation, { commentId });
+
+			return data.commentDelete.success;
+		} catch (error) {
+			console.error("Failed to delete comment:", error);
 			return false;
 		}
 	}
@@ -504,48 +788,19 @@ export class LinearClient {
 			const query = `
         query GetIssueById($issueId: String!) {
           issue(id: $issueId) {
-            id
-            identifier
-            title
-            description
-            url
-            state {
-              id
-              name
-            }
-            assignee {
-              id
-              name
-            }
-            labels {
-              nodes {
-                id
-                name
-              }
-            }
+            ...IssueFields
           }
         }
+        ${ISSUE_FIELDS_FRAGMENT}
       `;
 
 			const data = await this.executeGraphQL<{
-				issue: {
-					id: string;
-					identifier: string;
-					title: string;
-					description?: string;
-					url: string;
-					state: { id: string; name: string };
-					assignee?: { id: string; name: string };
-					labels: { nodes: { id: string; name: string }[] };
-				};
+				issue: RawIssueNode;
 			}>(query, { issueId });
 
 			if (!data.issue) return null;
 
-			return {
-				...data.issue,
-				labels: data.issue.labels?.nodes,
-			};
+			return toLinearIssue(data.issue);
 		} catch (error) {
 			console.error("Failed to fetch issue by ID:", error);
 			return null;
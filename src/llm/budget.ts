@@ -0,0 +1,34 @@
+import type { DailyLLMUsage } from "../state/llm-usage.js";
+
+/**
+ * Daily cap on calls that reach the model (0 = unlimited)
+ */
+export interface LLMBudgetConfig {
+  maxCallsPerDay: number;
+  /** Estimated prompt + response tokens */
+  maxTokensPerDay: number;
+}
+
+/**
+ * Whether a day's usage has used up the budget
+ */
+export function isBudgetExhausted(
+  budget: LLMBudgetConfig,
+  usage: DailyLLMUsage,
+): boolean {
+  return (
+    (budget.maxCallsPerDay > 0 && usage.calls >= budget.maxCallsPerDay) ||
+    (budget.maxTokensPerDay > 0 &&
+      usage.estimatedTokens >= budget.maxTokensPerDay)
+  );
+}
+
+/**
+ * Thrown instead of calling the model once the daily budget is used up
+ */
+export class LLMBudgetExceededError extends Error {
+  constructor() {
+    super("LLM daily budget reached");
+    this.name = "LLMBudgetExceededError";
+  }
+}
@@ -0,0 +1,81 @@
+import { createHash } from "crypto";
+import {
+  getCachedLLMResponse,
+  saveCachedLLMResponse,
+} from "../state/llm-cache.js";
+import { logger } from "../utils/logger.js";
+import type { LLMProvider } from "./providers.js";
+import type { LLMLogger } from "./client.js";
+
+/**
+ * Persistent response cache settings
+ */
+export interface LLMCacheConfig {
+  enabled: boolean;
+  /** How long a response stays valid, in milliseconds */
+  ttlMs: number;
+  maxEntries: number;
+  /** Total size of the cache entries on disk in bytes */
+  maxBytes: number;
+}
+
+/**
+ * On-disk cache of LLM responses, one file per entry
+ *
+ * Entries are keyed by a hash of the provider, model and prompt, so
+ * switching models never returns another model's answer. Read and write
+ * failures are logged and treated as a miss.
+ */
+export class LLMResponseCache {
+  private config: LLMCacheConfig;
+  private log: LLMLogger;
+
+  constructor(config: LLMCacheConfig, log: LLMLogger = logger) {
+    this.config = config;
+    this.log = log;
+  }
+
+  /**
+   * Cached response for a prompt, or null on a miss
+   */
+  get(provider: LLMProvider, prompt: string): string | null {
+    try {
+      const cached = getCachedLLMResponse(
+        llmCacheKey(provider.name, provider.model, prompt),
+        this.config.ttlMs,
+      );
+      return cached?.response ?? null;
+    } catch (error) {
+      this.log.error("Failed to read LLM cache:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Stores a successful response
+   */
+  set(provider: LLMProvider, prompt: string, response: string): void {
+    try {
+      saveCachedLLMResponse(
+        llmCacheKey(provider.name, provider.model, prompt),
+        { response, provider: provider.name, model: provider.model },
+        this.config,
+      );
+    } catch (error) {
+      this.log.error("Failed to write LLM cache:", error);
+    }
+  }
+}
+
+/**
+ * Cache key for a prompt sent to a provider/model
+ */
+export function llmCacheKey(
+  provider: string,
+  model: string | undefined,
+  prompt: string,
+): string {
+  return createHash("sha256")
+    .update(JSON.stringify([provider, model ?? "", prompt]))
+    .digest("hex");
+}
@@ -0,0 +1,188 @@
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { LLMProvider } from "./providers.js";
+
+/**
+ * Provider answering with queued responses and remembering the prompts
+ */
+class QueueProvider implements LLMProvider {
+  readonly name = "test";
+  prompts: string[] = [];
+
+  constructor(private responses: string[]) {}
+
+  async complete(prompt: string): Promise<string> {
+    this.prompts.push(prompt);
+    const response = this.responses.shift();
+    if (response === undefined) {
+      throw new Error("No response queued");
+    }
+    return response;
+  }
+}
+
+describe("LLMClient", () => {
+  let home: string;
+  let originalHome: string | undefined;
+  let llm: typeof import("./client.js");
+  let LLMResponseCache: typeof import("./cache.js").LLMResponseCache;
+
+  before(async () => {
+    // Calls are recorded in the usage log under the home directory
+    originalHome = process.env.HOME;
+    home = mkdtempSync(join(tmpdir(), "llm-client-"));
+    process.env.HOME = home;
+    llm = await import("./client.js");
+    ({ LLMResponseCache } = await import("./cache.js"));
+  });
+
+  after(() => {
+    process.env.HOME = originalHome;
+    rmSync(home, { recursive: true, force: true });
+  });
+
+  test("validates the response against the candidates", async () => {
+    const provider = new QueueProvider([
+      'Sure! {"matches": [{"issueId": "ENG-1", "relevanceScore": 0.8}, ' +
+        '{"issueId": "ENG-9", "relevanceScore": 0.9}]}',
+    ]);
+    const client = new llm.LLMClient(provider);
+
+    const response = await client.matchIssues("prompt", ["ENG-1"]);
+
+    assert.deepEqual(
+      response.matches.map((match) => [match.issueId, match.relevanceScore]),
+      [["ENG-1", 0.8]],
+    );
+    assert.equal(provider.prompts.length, 1);
+  });
+
+  test("re-prompts once with the validation errors", async () => {
+    const provider = new QueueProvider([
+      '{"matches": [{"issueId": "ENG-1"}]}',
+      '{"matches": [{"issueId": "ENG-1", "relevanceScore": 0.6}]}',
+    ]);
+    const client = new llm.LLMClient(provider);
+
+    const response = await client.matchIssues("prompt", ["ENG-1"]);
+
+    assert.equal(response.matches[0].relevanceScore, 0.6);
+    assert.equal(provider.prompts.length, 2);
+    assert.match(provider.prompts[1], /relevanceScore must be a number/);
+  });
+
+  test("gives up after one failed repair", async () => {
+    const provider = new QueueProvider(["no json", "still no json"]);
+    const client = new llm.LLMClient(provider);
+
+    await assert.rejects(
+      client.matchIssues("prompt", ["ENG-1"]),
+      /Invalid JSON response after repair/,
+    );
+    assert.equal(provider.prompts.length, 2);
+  });
+
+  test("warns the injected logger once the budget is used up", async () => {
+    const warnings: string[] = [];
+    const log = {
+      warn: (message: string) => warnings.push(message),
+      error() {},
+    };
+    const provider = new QueueProvider(["first"]);
+    await new llm.LLMClient(provider).complete("prompt", "test");
+
+    const client = new llm.LLMClient(provider, {
+      budget: { maxCallsPerDay: 1, maxTokensPerDay: 0 },
+      logger: log,
+    });
+
+    for (let i = 0; i < 2; i++) {
+      await assert.rejects(client.complete("prompt", "test"), {
+        name: "LLMBudgetExceededError",
+      });
+    }
+    assert.deepEqual(warnings, [
+      "LLM daily budget reached, skipping model calls until tomorrow",
+    ]);
+    assert.equal(provider.prompts.length, 1);
+  });
+
+  describe("caching", () => {
+    let prompt: string;
+    let counter = 0;
+
+    beforeEach(() => {
+      // A fresh prompt per test keeps the entries of other tests out
+      prompt = `prompt ${++counter}`;
+    });
+
+    function cachedClient(provider: LLMProvider) {
+      const cache = new LLMResponseCache({
+        enabled: true,
+        ttlMs: 60_000,
+        maxEntries: 100,
+        maxBytes: 1024 * 1024,
+      });
+      return new llm.LLMClient(provider, { cache });
+    }
+
+    test("serves a validated response from the cache", async () => {
+      const provider = new QueueProvider([
+        '{"matches": [{"issueId": "ENG-1", "relevanceScore": 0.8}]}',
+      ]);
+
+      await cachedClient(provider).matchIssues(prompt, ["ENG-1"]);
+      const again = await cachedClient(provider).matchIssues(prompt, [
+        "ENG-1",
+      ]);
+
+      assert.equal(again.matches[0].relevanceScore, 0.8);
+      assert.equal(provider.prompts.length, 1);
+    });
+
+    test("never caches a response that failed validation", async () => {
+      const provider = new QueueProvider([
+        "no json",
+        "still no json",
+        '{"matches": []}',
+      ]);
+
+      await assert.rejects(cachedClient(provider).matchIssues(prompt, []));
+      const response = await cachedClient(provider).matchIssues(prompt, []);
+
+      assert.deepEqual(response, { matches: [] });
+      assert.equal(provider.prompts.length, 3);
+      assert.equal(provider.prompts[2], prompt);
+    });
+
+    test("caches a repaired response under the original prompt", async () => {
+      const provider = new QueueProvider([
+        "no json",
+        '{"matches": [{"issueId": "ENG-1", "relevanceScore": 0.4}]}',
+      ]);
+
+      await cachedClient(provider).matchIssues(prompt, ["ENG-1"]);
+      const again = await cachedClient(provider).matchIssues(prompt, [
+        "ENG-1",
+      ]);
+
+      assert.equal(again.matches[0].relevanceScore, 0.4);
+      assert.equal(provider.prompts.length, 2);
+    });
+
+    test("caches plain completions", async () => {
+      const provider = new QueueProvider(["a summary"]);
+
+      await cachedClient(provider).complete(prompt, "summarize");
+
+      assert.equal(
+        await cachedClient(provider).complete(prompt, "summarize"),
+        "a summary",
+      );
+      assert.equal(provider.prompts.length, 1);
+    });
+  });
+});
@@ -1,14 +1,30 @@
-import { spawn } from "child_process";
-
-/**
- * Configuration for the LLM client
- */
-export interface LLMClientConfig {
-  /** Timeout in milliseconds */
-  timeout?: number;
-  /** Max tokens for response (used in prompt instruction) */
-  maxTokens?: number;
-}
+import {
+  ClaudeCliProvider,
+  createLLMProvider,
+  type LLMConfig,
+  type LLMProvider,
+} from "./providers.js";
+import {
+  estimateTokens,
+  getDailyLLMUsage,
+  recordLLMUsage,
+  type LLMCallOutcome,
+  type LLMPurpose,
+} from "../state/llm-usage.js";
+import {
+  isBudgetExhausted,
+  LLMBudgetExceededError,
+  type LLMBudgetConfig,
+} from "./budget.js";
+import { LLMResponseCache } from "./cache.js";
+import { logger } from "../utils/logger.js";
+import { formatRepairPrompt } from "./prompts.js";
+import {
+  extractJson,
+  validateSemanticMatchResponse,
+  type ResponseValidator,
+  type ValidationResult,
+} from "./validation.js";
 
 /**
  * Response from semantic matching
@@ -23,75 +39,234 @@ export interface SemanticMatchResponse {
 }
 
 /**
- * LLM client using Claude CLI (`claude -p`)
+ * Where the client reports a reached budget and bookkeeping failures
+ */
+export type LLMLogger = Pick<typeof logger, "warn" | "error">;
+
+/**
+ * Optional cache and daily budget in front of the provider
+ */
+export interface LLMClientOptions {
+  cache?: LLMResponseCache;
+  budget?: LLMBudgetConfig;
+  /** The shared daemon logger by default */
+  logger?: LLMLogger;
+}
+
+/**
+ * Per-call options for `LLMClient.complete`
+ */
+export interface CompleteOptions {
+  /** Cache a fresh response only if it passes this check (default: always) */
+  cacheIf?: (response: string) => boolean;
+}
+
+/**
+ * LLM client on top of a provider (the Claude CLI by default)
+ *
+ * Every call is recorded in the usage log with its purpose.
  */
 export class LLMClient {
-  private timeout: number;
-  private maxTokens: number;
+  private provider: LLMProvider;
+  private cache: LLMResponseCache | null;
+  private budget: LLMBudgetConfig | null;
+  private budgetWarnedOn: string | null = null;
+  private log: LLMLogger;
 
-  constructor(config?: LLMClientConfig) {
-    this.timeout = config?.timeout || 60000;
-    this.maxTokens = config?.maxTokens || 1024;
+  constructor(
+    provider: LLMProvider = new ClaudeCliProvider(),
+    options: LLMClientOptions = {},
+  ) {
+    this.provider = provider;
+    this.cache = options.cache ?? null;
+    this.budget = options.budget ?? null;
+    this.log = options.logger ?? logger;
   }
 
   /**
-   * Sends a prompt to Claude CLI and returns the response
+   * Sends a prompt to the provider and returns the response
+   *
+   * Cached responses are returned even when the daily budget is used up;
+   * otherwise an exhausted budget throws LLMBudgetExceededError so callers
+   * fall back to keyword-only matching or an extractive summary.
    */
-  async complete(prompt: string): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const child = spawn("claude", ["-p", prompt], {
-        stdio: ["pipe", "pipe", "pipe"],
-        timeout: this.timeout,
+  async complete(
+    prompt: string,
+    purpose: LLMPurpose,
+    options: CompleteOptions = {},
+  ): Promise<string> {
+    const startedAt = Date.now();
+    const record = (
+      outcome: LLMCallOutcome,
+      response: string = "",
+      error?: unknown,
+    ): void => {
+      this.recordUsage({
+        purpose,
+        outcome,
+        startedAt,
+        promptChars: prompt.length,
+        responseChars: response.length,
+        error,
       });
+    };
 
-      let stdout = "";
-      let stderr = "";
+    const cached = this.cache?.get(this.provider, prompt) ?? null;
+    if (cached !== null) {
+      record("cached", cached);
+      return cached;
+    }
 
-      child.stdout.on("data", (data) => {
-        stdout += data.toString();
-      });
+    if (!this.hasBudget()) {
+      record("over_budget");
+      throw new LLMBudgetExceededError();
+    }
 
-      child.stderr.on("data", (data) => {
-        stderr += data.toString();
-      });
+    let response: string;
+    try {
+      response = await this.provider.complete(prompt);
+    } catch (error) {
+      record("error", "", error);
+      throw error;
+    }
 
-      child.on("close", (code) => {
-        if (code === 0) {
-          resolve(stdout.trim());
-        } else {
-          reject(new Error(`claude -p failed with code ${code}: ${stderr}`));
-        }
-      });
+    record("ok", response);
+    if (options.cacheIf?.(response) ?? true) {
+      this.cache?.set(this.provider, prompt, response);
+    }
+    return response;
+  }
 
-      child.on("error", (error) => {
-        reject(new Error(`Failed to spawn claude: ${error.message}`));
-      });
+  /**
+   * Sends a prompt and parses the JSON response, re-prompting once with
+   * the validation errors if it doesn't match the expected shape
+   *
+   * Only responses that pass validation are cached, so a malformed answer
+   * is never served again.
+   */
+  async completeJSON<T>(
+    prompt: string,
+    purpose: LLMPurpose,
+    validate: ResponseValidator<T>,
+  ): Promise<T> {
+    const response = await this.complete(prompt, purpose, {
+      cacheIf: (fresh) => parseResponse(fresh, validate).ok,
     });
+    const first = parseResponse(response, validate);
+    if (first.ok) {
+      return first.value;
+    }
+
+    // One repair attempt, showing the model what was wrong
+    const repairResponse = await this.complete(
+      formatRepairPrompt(prompt, response, first.errors),
+      purpose,
+      { cacheIf: () => false },
+    );
+    const repaired = parseResponse(repairResponse, validate);
+    if (repaired.ok) {
+      // Cached under the original prompt so the next call needs no repair
+      this.cache?.set(this.provider, prompt, repairResponse);
+      return repaired.value;
+    }
+
+    throw new Error(
+      `Invalid JSON response after repair: ${repaired.errors.join("; ")}`,
+    );
+  }
+
+  /**
+   * Performs semantic matching and returns structured results for the
+   * given candidates only
+   */
+  async matchIssues(
+    prompt: string,
+    candidateIds: string[],
+  ): Promise<SemanticMatchResponse> {
+    return this.completeJSON(prompt, "match", (value) =>
+      validateSemanticMatchResponse(value, candidateIds),
+    );
   }
 
   /**
-   * Sends a prompt and parses the JSON response
+   * Whether today's budget still allows calling the model
    */
-  async completeJSON<T>(prompt: string): Promise<T> {
-    const response = await this.complete(prompt);
+  private hasBudget(): boolean {
+    if (!this.budget) {
+      return true;
+    }
+
+    if (!isBudgetExhausted(this.budget, getDailyLLMUsage())) {
+      return true;
+    }
 
-    // Try to extract JSON from the response
-    const jsonMatch = response.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error("No JSON found in response");
+    const today = new Date().toDateString();
+    if (this.budgetWarnedOn !== today) {
+      this.budgetWarnedOn = today;
+      this.log.warn(
+        "LLM daily budget reached, skipping model calls until tomorrow",
+      );
     }
+    return false;
+  }
 
+  private recordUsage(call: {
+    purpose: LLMPurpose;
+    outcome: LLMCallOutcome;
+    startedAt: number;
+    promptChars: number;
+    responseChars: number;
+    error?: unknown;
+  }): void {
     try {
-      return JSON.parse(jsonMatch[0]) as T;
+      recordLLMUsage({
+        at: new Date(call.startedAt).toISOString(),
+        purpose: call.purpose,
+        provider: this.provider.name,
+        model: this.provider.model,
+        outcome: call.outcome,
+        durationMs: Date.now() - call.startedAt,
+        promptChars: call.promptChars,
+        responseChars: call.responseChars,
+        estimatedTokens:
+          call.outcome === "ok" || call.outcome === "error"
+            ? estimateTokens(call.promptChars + call.responseChars)
+            : 0,
+        ...(call.error !== undefined ? { error: String(call.error).slice(0, 500) } : {}),
+      });
     } catch (error) {
-      throw new Error(`Failed to parse JSON response: ${error}`);
+      this.log.error("Failed to record LLM usage:", error);
     }
   }
+}
 
-  /**
-   * Performs semantic matching and returns structured results
-   */
-  async matchIssues(prompt: string): Promise<SemanticMatchResponse> {
-    return this.completeJSON<SemanticMatchResponse>(prompt);
+/**
+ * Creates a client for the provider selected in the config, with the
+ * response cache (unless disabled) and the daily budget
+ */
+export function createLLMClient(
+  config: LLMConfig,
+  log: LLMLogger = logger,
+): LLMClient {
+  return new LLMClient(createLLMProvider(config), {
+    cache: config.cache.enabled
+      ? new LLMResponseCache(config.cache, log)
+      : undefined,
+    budget: config.budget,
+    logger: log,
+  });
+}
+
+function parseResponse<T>(
+  response: string,
+  validate: ResponseValidator<T>,
+): ValidationResult<T> {
+  try {
+    return validate(extractJson(response));
+  } catch (error) {
+    return {
+      ok: false,
+      errors: [error instanceof Error ? error.message : String(error)],
+    };
   }
 }
@@ -51,6 +51,36 @@ Session Context:
 
 Output a single line search query (max 100 characters). Do not include any explanation.`;
 
+/**
+ * Prompt asking the model to fix a response that failed validation
+ */
+export const JSON_REPAIR_PROMPT = `Your previous response could not be used. It had these problems:
+{errors}
+
+Previous response:
+{response}
+
+Answer the original request again, responding ONLY with valid JSON in the requested format.
+
+Original request:
+{prompt}`;
+
+/**
+ * Formats the repair prompt for a response that failed validation
+ */
+export function formatRepairPrompt(
+  prompt: string,
+  response: string,
+  errors: string[],
+): string {
+  // Replacer functions so "$" in the texts isn't read as a pattern
+  return JSON_REPAIR_PROMPT.replace("{errors}", () =>
+    errors.map((error) => `- ${error}`).join("\n"),
+  )
+    .replace("{response}", () => response.slice(0, 2000))
+    .replace("{prompt}", () => prompt);
+}
+
 /**
  * Formats the issue matching prompt with actual values
  */
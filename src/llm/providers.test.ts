@@ -0,0 +1,243 @@
+import { after, afterEach, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  createServer,
+  type IncomingHttpHeaders,
+  type Server,
+  type ServerResponse,
+} from "http";
+import type { AddressInfo } from "net";
+import { chmodSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { HttpProviderConfig } from "./providers.js";
+
+const API_KEY_ENV = "PROVIDERS_TEST_API_KEY";
+
+/**
+ * Local HTTP server standing in for the LLM APIs
+ */
+class StubServer {
+  requests: { url: string; headers: IncomingHttpHeaders; body: any }[] = [];
+  respond: (response: ServerResponse) => void = (response) => {
+    response.end("{}");
+  };
+  private server: Server;
+
+  constructor() {
+    this.server = createServer((request, response) => {
+      let body = "";
+      request.on("data", (chunk) => {
+        body += chunk;
+      });
+      request.on("end", () => {
+        this.requests.push({
+          url: request.url ?? "",
+          headers: request.headers,
+          body: JSON.parse(body),
+        });
+        this.respond(response);
+      });
+    });
+  }
+
+  async listen(): Promise<string> {
+    await new Promise<void>((resolve) =>
+      this.server.listen(0, "127.0.0.1", resolve),
+    );
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  replyJson(status: number, body: unknown): void {
+    this.respond = (response) => {
+      response.writeHead(status, { "Content-Type": "application/json" });
+      response.end(JSON.stringify(body));
+    };
+  }
+
+  async close(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise((resolve) => this.server.close(resolve));
+  }
+}
+
+describe("LLM providers", () => {
+  let home: string;
+  let originalHome: string | undefined;
+  let providers: typeof import("./providers.js");
+  let server: StubServer;
+  let baseUrl: string;
+
+  before(async () => {
+    // The Claude CLI runs in a directory under the home directory, resolved
+    // at import time
+    originalHome = process.env.HOME;
+    home = mkdtempSync(join(tmpdir(), "llm-providers-"));
+    process.env.HOME = home;
+    process.env[API_KEY_ENV] = "secret";
+    providers = await import("./providers.js");
+
+    server = new StubServer();
+    baseUrl = await server.listen();
+  });
+
+  afterEach(() => {
+    server.requests = [];
+  });
+
+  after(async () => {
+    await server.close();
+    delete process.env[API_KEY_ENV];
+    process.env.HOME = originalHome;
+    rmSync(home, { recursive: true, force: true });
+  });
+
+  function httpConfig(
+    overrides: Partial<HttpProviderConfig> = {},
+  ): HttpProviderConfig {
+    return {
+      baseUrl: `${baseUrl}/`,
+      apiKeyEnv: API_KEY_ENV,
+      model: "test-model",
+      timeoutMs: 5000,
+      maxTokens: 256,
+      ...overrides,
+    };
+  }
+
+  describe("AnthropicProvider", () => {
+    test("sends the Messages API request and joins the text blocks", async () => {
+      server.replyJson(200, {
+        content: [
+          { type: "text", text: " Hello" },
+          { type: "tool_use", id: "tool-1" },
+          { type: "text", text: ", world " },
+        ],
+      });
+
+      const text = await new providers.AnthropicProvider(
+        httpConfig(),
+      ).complete("Say hello");
+
+      assert.equal(text, "Hello, world");
+      const [request] = server.requests;
+      assert.equal(request.url, "/v1/messages");
+      assert.equal(request.headers["x-api-key"], "secret");
+      assert.equal(request.headers["anthropic-version"], "2023-06-01");
+      assert.deepEqual(request.body, {
+        model: "test-model",
+        max_tokens: 256,
+        messages: [{ role: "user", content: "Say hello" }],
+      });
+    });
+
+    test("rejects a response without text", async () => {
+      server.replyJson(200, { content: [] });
+
+      await assert.rejects(
+        new providers.AnthropicProvider(httpConfig()).complete("prompt"),
+        /returned no text/,
+      );
+    });
+
+    test("needs a model", () => {
+      assert.throws(
+        () => new providers.AnthropicProvider(httpConfig({ model: "" })),
+        /needs a model/,
+      );
+    });
+  });
+
+  describe("OpenAICompatibleProvider", () => {
+    test("sends a bearer token and returns the first choice", async () => {
+      server.replyJson(200, {
+        choices: [{ message: { content: " OK \n" } }, { message: {} }],
+      });
+
+      const text = await new providers.OpenAICompatibleProvider(
+        httpConfig(),
+      ).complete("Reply with OK.");
+
+      assert.equal(text, "OK");
+      const [request] = server.requests;
+      assert.equal(request.url, "/chat/completions");
+      assert.equal(request.headers.authorization, "Bearer secret");
+      assert.equal(request.body.model, "test-model");
+      assert.equal(request.body.max_tokens, 256);
+    });
+
+    test("sends no credentials without an API key variable", async () => {
+      server.replyJson(200, { choices: [{ message: { content: "OK" } }] });
+
+      await new providers.OpenAICompatibleProvider(
+        httpConfig({ apiKeyEnv: undefined }),
+      ).complete("prompt");
+
+      assert.equal(server.requests[0].headers.authorization, undefined);
+    });
+
+    test("rejects empty content", async () => {
+      server.replyJson(200, { choices: [{ message: { content: null } }] });
+
+      await assert.rejects(
+        new providers.OpenAICompatibleProvider(httpConfig()).complete("prompt"),
+        /returned no text/,
+      );
+    });
+  });
+
+  test("reports the status and body of a failed request", async () => {
+    server.replyJson(429, { error: "rate limited" });
+
+    await assert.rejects(
+      new providers.OpenAICompatibleProvider(httpConfig()).complete("prompt"),
+      /LLM API error: 429 Too Many Requests \{"error":"rate limited"\}/,
+    );
+  });
+
+  test("gives up after the timeout", async () => {
+    // Never answer
+    server.respond = () => {};
+
+    await assert.rejects(
+      new providers.AnthropicProvider(httpConfig({ timeoutMs: 50 })).complete(
+        "prompt",
+      ),
+      { name: "TimeoutError" },
+    );
+  });
+
+  describe("ClaudeCliProvider", () => {
+    let command: string;
+
+    before(() => {
+      // Prints its arguments, then echoes stdin back
+      command = join(home, "fake-claude");
+      writeFileSync(command, '#!/bin/sh\necho "args: $*"\ncat\n');
+      chmodSync(command, 0o755);
+    });
+
+    test("passes the prompt on stdin", async () => {
+      const prompt = "Summarize this session\n" + "x".repeat(200_000);
+
+      const output = await new providers.ClaudeCliProvider({
+        command,
+        model: "haiku",
+      }).complete(prompt);
+
+      assert.equal(output, `args: -p --model haiku\n${prompt}`.trim());
+    });
+
+    test("rejects with stderr when the command fails", async () => {
+      const failing = join(home, "failing-claude");
+      writeFileSync(failing, "#!/bin/sh\necho 'not logged in' >&2\nexit 3\n");
+      chmodSync(failing, 0o755);
+
+      await assert.rejects(
+        new providers.ClaudeCliProvider({ command: failing }).complete("prompt"),
+        /failed with code 3: not logged in/,
+      );
+    });
+  });
+});
@@ -0,0 +1,251 @@
+import { spawn } from "child_process";
+import { childSessionSpawnOptions } from "../utils/child-session.js";
+import type { LLMBudgetConfig } from "./budget.js";
+import type { LLMCacheConfig } from "./cache.js";
+
+/**
+ * Backend that turns a prompt into a completion
+ */
+export interface LLMProvider {
+  /** Provider name, e.g. "claude-cli" */
+  readonly name: string;
+  /** Model the provider sends prompts to (undefined = provider default) */
+  readonly model?: string;
+  complete(prompt: string): Promise<string>;
+}
+
+/**
+ * Settings shared by every provider
+ */
+export interface LLMProviderConfig {
+  /** Model name; the Claude CLI falls back to its own default */
+  model?: string;
+  /** Timeout in milliseconds */
+  timeoutMs: number;
+  /** Max tokens for the response (the Claude CLI has no such option) */
+  maxTokens: number;
+}
+
+/**
+ * Claude CLI settings
+ */
+export interface ClaudeCliProviderConfig extends LLMProviderConfig {
+  /** Executable to run */
+  command: string;
+}
+
+/**
+ * Settings for providers reached over HTTP
+ */
+export interface HttpProviderConfig extends LLMProviderConfig {
+  /** API root, e.g. https://api.anthropic.com or http://localhost:8080/v1 */
+  baseUrl: string;
+  /** Environment variable holding the API key */
+  apiKeyEnv?: string;
+}
+
+export type LLMProviderName = "claude-cli" | "anthropic" | "openai";
+
+/**
+ * Provider selection plus the settings of each provider
+ */
+export interface LLMConfig {
+  provider: LLMProviderName;
+  claudeCli: ClaudeCliProviderConfig;
+  anthropic: HttpProviderConfig;
+  openai: HttpProviderConfig;
+  cache: LLMCacheConfig;
+  budget: LLMBudgetConfig;
+}
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+/**
+ * Claude CLI (`claude -p`), with the prompt on stdin so long transcripts
+ * don't hit the argv size limit
+ */
+export class ClaudeCliProvider implements LLMProvider {
+  readonly name = "claude-cli";
+  readonly model?: string;
+  private config: ClaudeCliProviderConfig;
+
+  constructor(config: Partial<ClaudeCliProviderConfig> = {}) {
+    this.config = {
+      command: "claude",
+      timeoutMs: 60000,
+      maxTokens: 1024,
+      ...config,
+    };
+    this.model = this.config.model || undefined;
+  }
+
+  async complete(prompt: string): Promise<string> {
+    const args = ["-p", ...(this.model ? ["--model", this.model] : [])];
+
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.config.command, args, {
+        ...childSessionSpawnOptions(),
+        stdio: ["pipe", "pipe", "pipe"],
+        timeout: this.config.timeoutMs,
+      });
+
+      let stdout = "";
+      let stderr = "";
+
+      child.stdout.on("data", (data) => {
+        stdout += data.toString();
+      });
+
+      child.stderr.on("data", (data) => {
+        stderr += data.toString();
+      });
+
+      child.on("close", (code) => {
+        if (code === 0) {
+          resolve(stdout.trim());
+        } else {
+          reject(new Error(`claude -p failed with code ${code}: ${stderr}`));
+        }
+      });
+
+      child.on("error", (error) => {
+        reject(new Error(`Failed to spawn claude: ${error.message}`));
+      });
+
+      // The child may exit before reading everything (e.g. a bad flag)
+      child.stdin.on("error", () => {});
+      child.stdin.end(prompt);
+    });
+  }
+}
+
+/**
+ * Anthropic Messages API
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = "anthropic";
+  readonly model: string;
+  private config: HttpProviderConfig;
+
+  constructor(config: HttpProviderConfig) {
+    if (!config.model) {
+      throw new Error("The anthropic provider needs a model");
+    }
+    this.config = config;
+    this.model = config.model;
+  }
+
+  async complete(prompt: string): Promise<string> {
+    const apiKey = readApiKey(this.config);
+    const data = await postJson<{
+      content?: { type: string; text?: string }[];
+    }>(
+      `${trimSlash(this.config.baseUrl)}/v1/messages`,
+      {
+        ...(apiKey ? { "x-api-key": apiKey } : {}),
+        "anthropic-version": ANTHROPIC_VERSION,
+      },
+      {
+        model: this.model,
+        max_tokens: this.config.maxTokens,
+        messages: [{ role: "user", content: prompt }],
+      },
+      this.config.timeoutMs,
+    );
+
+    const text = (data.content ?? [])
+      .filter((block) => block.type === "text")
+      .map((block) => block.text ?? "")
+      .join("");
+    if (!text) {
+      throw new Error("Anthropic API returned no text");
+    }
+
+    return text.trim();
+  }
+}
+
+/**
+ * OpenAI-compatible Chat Completions API (OpenAI, local model servers, ...)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = "openai";
+  readonly model: string;
+  private config: HttpProviderConfig;
+
+  constructor(config: HttpProviderConfig) {
+    if (!config.model) {
+      throw new Error("The openai provider needs a model");
+    }
+    this.config = config;
+    this.model = config.model;
+  }
+
+  async complete(prompt: string): Promise<string> {
+    const apiKey = readApiKey(this.config);
+    const data = await postJson<{
+      choices?: { message?: { content?: string | null } }[];
+    }>(
+      `${trimSlash(this.config.baseUrl)}/chat/completions`,
+      apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+      {
+        model: this.model,
+        max_tokens: this.config.maxTokens,
+        messages: [{ role: "user", content: prompt }],
+      },
+      this.config.timeoutMs,
+    );
+
+    const text = data.choices?.[0]?.message?.content;
+    if (!text) {
+      throw new Error("OpenAI-compatible API returned no text");
+    }
+
+    return text.trim();
+  }
+}
+
+/**
+ * Creates the provider selected in the config
+ */
+export function createLLMProvider(config: LLMConfig): LLMProvider {
+  switch (config.provider) {
+    case "claude-cli":
+      return new ClaudeCliProvider(config.claudeCli);
+    case "anthropic":
+      return new AnthropicProvider(config.anthropic);
+    case "openai":
+      return new OpenAICompatibleProvider(config.openai);
+  }
+}
+
+async function postJson<T>(
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  timeoutMs: number,
+): Promise<T> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => "");
+    throw new Error(
+      `LLM API error: ${response.status} ${response.statusText} ${detail}`.trim(),
+    );
+  }
+
+  return (await response.json()) as T;
+}
+
+function readApiKey(config: HttpProviderConfig): string | undefined {
+  return config.apiKeyEnv ? process.env[config.apiKeyEnv] : undefined;
+}
+
+function trimSlash(url: string): string {
+  return url.replace(/\/+$/, "");
+}
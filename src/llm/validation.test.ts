@@ -0,0 +1,119 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { extractJson, validateSemanticMatchResponse } from "./validation.js";
+
+describe("extractJson", () => {
+  test("parses bare JSON", () => {
+    assert.deepEqual(extractJson('  {"matches": []}\n'), { matches: [] });
+  });
+
+  test("parses a fenced block", () => {
+    const response = 'Here you go:\n```json\n{"matches": [1]}\n```\nDone.';
+    assert.deepEqual(extractJson(response), { matches: [1] });
+  });
+
+  test("finds the object inside prose, skipping stray braces", () => {
+    const response =
+      'Matching {roughly} by title: {"matches": [], "note": "a } in a string"} ok';
+    assert.deepEqual(extractJson(response), {
+      matches: [],
+      note: "a } in a string",
+    });
+  });
+
+  test("throws when there is no JSON object", () => {
+    assert.throws(() => extractJson("No matches found."), /No valid JSON/);
+    assert.throws(() => extractJson('{"matches": ['), /No valid JSON/);
+  });
+});
+
+describe("validateSemanticMatchResponse", () => {
+  const candidates = ["ENG-1", "ENG-2"];
+
+  test("normalizes scores, reasoning and aspects", () => {
+    const result = validateSemanticMatchResponse(
+      {
+        matches: [
+          { issueId: "ENG-1", relevanceScore: 1.4, matchedAspects: ["a", 3] },
+          { issueId: "ENG-2", relevanceScore: "0.5", reasoning: "close" },
+        ],
+      },
+      candidates,
+    );
+
+    assert.deepEqual(result, {
+      ok: true,
+      value: {
+        matches: [
+          {
+            issueId: "ENG-1",
+            relevanceScore: 1,
+            reasoning: "",
+            matchedAspects: ["a"],
+          },
+          {
+            issueId: "ENG-2",
+            relevanceScore: 0.5,
+            reasoning: "close",
+            matchedAspects: [],
+          },
+        ],
+      },
+    });
+  });
+
+  test("drops issues that weren't candidates", () => {
+    const result = validateSemanticMatchResponse(
+      { matches: [{ issueId: "ENG-9", relevanceScore: 0.9 }] },
+      candidates,
+    );
+
+    assert.deepEqual(result, { ok: true, value: { matches: [] } });
+  });
+
+  test("keeps the higher score of a duplicated issue", () => {
+    const result = validateSemanticMatchResponse(
+      {
+        matches: [
+          { issueId: "ENG-1", relevanceScore: 0.2 },
+          { issueId: "ENG-1", relevanceScore: 0.7 },
+        ],
+      },
+      candidates,
+    );
+
+    assert.ok(result.ok);
+    assert.deepEqual(
+      result.value.matches.map((match) => match.relevanceScore),
+      [0.7],
+    );
+  });
+
+  test("reports every malformed match", () => {
+    const result = validateSemanticMatchResponse(
+      {
+        matches: [
+          "ENG-1",
+          { relevanceScore: 0.5 },
+          { issueId: "ENG-2", relevanceScore: "high" },
+        ],
+      },
+      candidates,
+    );
+
+    assert.deepEqual(result, {
+      ok: false,
+      errors: [
+        "matches[0] must be an object",
+        "matches[1].issueId must be a non-empty string",
+        "matches[2].relevanceScore must be a number between 0 and 1",
+      ],
+    });
+  });
+
+  test("rejects a response without a matches array", () => {
+    for (const value of [null, [], { matches: {} }, { results: [] }]) {
+      assert.equal(validateSemanticMatchResponse(value, candidates).ok, false);
+    }
+  });
+});
@@ -0,0 +1,150 @@
+import type { SemanticMatchResponse } from "./client.js";
+
+/**
+ * Outcome of checking a parsed LLM response against its expected shape
+ */
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: string[] };
+
+/**
+ * Checks and normalizes a parsed LLM response
+ */
+export type ResponseValidator<T> = (value: unknown) => ValidationResult<T>;
+
+/**
+ * Parses the JSON object in an LLM response
+ *
+ * Accepts bare JSON, a ```json fence, or an object surrounded by prose;
+ * each balanced `{...}` is tried in turn, so braces in the prose don't
+ * swallow the real object.
+ */
+export function extractJson(response: string): unknown {
+  const text = response.trim();
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidates = [text, ...(fenced ? [fenced[1]] : []), ...findObjects(text)];
+
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // Try the next candidate
+    }
+  }
+
+  throw new Error("No valid JSON object found in response");
+}
+
+/**
+ * Validates a semantic match response
+ *
+ * Scores are clamped to 0..1 and matches for issues that weren't offered
+ * are dropped; only a malformed shape counts as an error.
+ */
+export function validateSemanticMatchResponse(
+  value: unknown,
+  candidateIds: string[],
+): ValidationResult<SemanticMatchResponse> {
+  if (!isRecord(value) || !Array.isArray(value.matches)) {
+    return { ok: false, errors: ['Expected an object with a "matches" array'] };
+  }
+
+  const errors: string[] = [];
+  const candidates = new Set(candidateIds);
+  const byIssue = new Map<string, SemanticMatchResponse["matches"][number]>();
+
+  value.matches.forEach((match: unknown, index: number) => {
+    const path = `matches[${index}]`;
+    if (!isRecord(match)) {
+      errors.push(`${path} must be an object`);
+      return;
+    }
+
+    if (typeof match.issueId !== "string" || !match.issueId) {
+      errors.push(`${path}.issueId must be a non-empty string`);
+      return;
+    }
+
+    const score =
+      typeof match.relevanceScore === "string"
+        ? Number(match.relevanceScore)
+        : match.relevanceScore;
+    if (typeof score !== "number" || !Number.isFinite(score)) {
+      errors.push(`${path}.relevanceScore must be a number between 0 and 1`);
+      return;
+    }
+
+    if (!candidates.has(match.issueId)) {
+      return;
+    }
+
+    const normalized = {
+      issueId: match.issueId,
+      relevanceScore: Math.min(1, Math.max(0, score)),
+      reasoning: typeof match.reasoning === "string" ? match.reasoning : "",
+      matchedAspects: Array.isArray(match.matchedAspects)
+        ? match.matchedAspects.filter(
+            (aspect): aspect is string => typeof aspect === "string",
+          )
+        : [],
+    };
+
+    // Keep the higher score if an issue is listed twice
+    const existing = byIssue.get(match.issueId);
+    if (!existing || normalized.relevanceScore > existing.relevanceScore) {
+      byIssue.set(match.issueId, normalized);
+    }
+  });
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return { ok: true, value: { matches: [...byIssue.values()] } };
+}
+
+/**
+ * Top-level balanced `{...}` spans, skipping braces inside strings
+ */
+function findObjects(text: string): string[] {
+  const objects: string[] = [];
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === "\\") {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"' && depth > 0) {
+      inString = true;
+    } else if (char === "{") {
+      if (depth === 0) {
+        start = i;
+      }
+      depth++;
+    } else if (char === "}" && depth > 0) {
+      depth--;
+      if (depth === 0) {
+        objects.push(text.slice(start, i + 1));
+      }
+    }
+  }
+
+  return objects;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
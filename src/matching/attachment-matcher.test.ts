@@ -0,0 +1,145 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { LinearIssue } from "../linear/client.js";
+import {
+  findAttachmentMatch,
+  type AttachmentSource,
+  type OpenPrLookup,
+} from "./attachment-matcher.js";
+
+const PR_URL = "https://github.com/acme/app/pull/7";
+const OPEN_PR_URL = "https://github.com/acme/app/pull/8";
+
+describe("findAttachmentMatch", () => {
+  test("prefers the issue the PR URL is attached to", async () => {
+    const source = new FakeAttachmentSource({
+      byUrl: { [PR_URL]: [issue("ENG-1")] },
+      byBranch: { "feature/login": issue("ENG-2") },
+    });
+
+    const match = await findAttachmentMatch(source, {
+      cwd: "/repo",
+      gitBranch: "feature/login",
+      prUrl: PR_URL,
+    });
+
+    assert.equal(match?.issue.identifier, "ENG-1");
+    assert.equal(match?.matchType, "attachment");
+  });
+
+  test("returns nothing for a PR attached to several issues", async () => {
+    const source = new FakeAttachmentSource({
+      byUrl: { [PR_URL]: [issue("ENG-1"), issue("ENG-2"), issue("ENG-1")] },
+    });
+
+    assert.equal(
+      await findAttachmentMatch(source, { cwd: "/repo", prUrl: PR_URL }),
+      null,
+    );
+  });
+
+  test("falls back to the branch", async () => {
+    const source = new FakeAttachmentSource({
+      byBranch: { "feature/login": issue("ENG-2") },
+    });
+
+    const match = await findAttachmentMatch(source, {
+      cwd: "/repo",
+      gitBranch: "feature/login",
+      prUrl: PR_URL,
+    });
+
+    assert.equal(match?.issue.identifier, "ENG-2");
+  });
+
+  test("skips default branches and sessions without a branch", async () => {
+    const source = new FakeAttachmentSource({
+      byBranch: { main: issue("ENG-2") },
+    });
+    const lookup = new RecordingPrLookup(OPEN_PR_URL);
+
+    for (const gitBranch of ["main", undefined]) {
+      assert.equal(
+        await findAttachmentMatch(
+          source,
+          { cwd: "/repo", gitBranch, lookupOpenPr: true },
+          lookup.find,
+        ),
+        null,
+      );
+    }
+    assert.deepEqual(source.branchLookups, []);
+    assert.deepEqual(lookup.calls, []);
+  });
+
+  test("looks up the branch's open PR only without a PR URL", async () => {
+    const source = new FakeAttachmentSource({
+      byUrl: { [OPEN_PR_URL]: [issue("ENG-3")] },
+    });
+    const lookup = new RecordingPrLookup(OPEN_PR_URL);
+
+    const match = await findAttachmentMatch(
+      source,
+      { cwd: "/repo", gitBranch: "feature/login", lookupOpenPr: true },
+      lookup.find,
+    );
+    assert.equal(match?.issue.identifier, "ENG-3");
+    assert.deepEqual(lookup.calls, [["/repo", "feature/login"]]);
+
+    await findAttachmentMatch(
+      source,
+      {
+        cwd: "/repo",
+        gitBranch: "feature/login",
+        prUrl: PR_URL,
+        lookupOpenPr: true,
+      },
+      lookup.find,
+    );
+    assert.equal(lookup.calls.length, 1);
+  });
+});
+
+function issue(identifier: string): LinearIssue {
+  return {
+    id: `id-${identifier}`,
+    identifier,
+    title: `Issue ${identifier}`,
+    url: `https://linear.app/acme/issue/${identifier}`,
+    state: { id: "state-1", name: "In Progress" },
+  };
+}
+
+class FakeAttachmentSource implements AttachmentSource {
+  branchLookups: string[] = [];
+
+  constructor(
+    private attachments: {
+      byUrl?: Record<string, LinearIssue[]>;
+      byBranch?: Record<string, LinearIssue>;
+    },
+  ) {}
+
+  async findIssuesByAttachmentUrl(url: string): Promise<LinearIssue[]> {
+    return this.attachments.byUrl?.[url] ?? [];
+  }
+
+  async findIssueByBranch(branchName: string): Promise<LinearIssue | null> {
+    this.branchLookups.push(branchName);
+    return this.attachments.byBranch?.[branchName] ?? null;
+  }
+}
+
+/**
+ * Stands in for `gh pr view`, remembering what it was asked
+ */
+class RecordingPrLookup {
+  calls: [string, string][] = [];
+
+  constructor(private url: string | null) {}
+
+  find: OpenPrLookup = async (cwd, branch) => {
+    this.calls.push([cwd, branch]);
+    return this.url;
+  };
+}
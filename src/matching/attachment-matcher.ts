@@ -0,0 +1,127 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import type { LinearIssue } from "../linear/client.js";
+import type { MatchResult } from "./types.js";
+
+const execFileAsync = promisify(execFile);
+
+// An attachment names the issue outright; only a manual link beats it
+const ATTACHMENT_CONFIDENCE = 0.95;
+
+// `gh` talks to GitHub, so don't let a slow network hold up the queue
+const GH_TIMEOUT_MS = 10_000;
+
+// Branches every PR is based on, never linked to a single issue
+const DEFAULT_BRANCHES = new Set(["main", "master", "develop", "trunk"]);
+
+/**
+ * Linear lookups for issues linked through GitHub attachments
+ */
+export interface AttachmentSource {
+  findIssuesByAttachmentUrl(url: string): Promise<LinearIssue[]>;
+  findIssueByBranch(branchName: string): Promise<LinearIssue | null>;
+}
+
+/**
+ * What a session knows about its branch and pull request
+ */
+export interface AttachmentLookup {
+  cwd: string;
+  gitBranch?: string;
+  /** PR URL from a `pr_created` item */
+  prUrl?: string;
+  /** Ask `gh` for the open PR of `gitBranch` (needs a feature branch) */
+  lookupOpenPr?: boolean;
+}
+
+/**
+ * Finds the URL of a branch's open PR
+ */
+export type OpenPrLookup = (
+  cwd: string,
+  branch: string,
+) => Promise<string | null>;
+
+/**
+ * Finds the issue a session's PR or branch is already attached to
+ *
+ * Tries the PR URL, then the branch, then the branch's open PR. A PR
+ * attached to several issues is ambiguous and yields no match.
+ */
+export async function findAttachmentMatch(
+  source: AttachmentSource,
+  lookup: AttachmentLookup,
+  findOpenPr: OpenPrLookup = getOpenPrUrl,
+): Promise<MatchResult | null> {
+  if (lookup.prUrl) {
+    const match = await matchPrUrl(source, lookup.prUrl);
+    if (match) {
+      return match;
+    }
+  }
+
+  // Sessions on a default branch (or none) have no PR of their own
+  const branch = lookup.gitBranch;
+  if (!branch || DEFAULT_BRANCHES.has(branch)) {
+    return null;
+  }
+
+  const issue = await source.findIssueByBranch(branch);
+  if (issue) {
+    return toMatchResult(issue, `Branch ${branch} is linked to this issue`);
+  }
+
+  if (lookup.lookupOpenPr && !lookup.prUrl) {
+    const openPrUrl = await findOpenPr(lookup.cwd, branch);
+    if (openPrUrl) {
+      return matchPrUrl(source, openPrUrl);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * URL of the open PR for a branch, via `gh`
+ */
+export async function getOpenPrUrl(
+  cwd: string,
+  branch: string,
+): Promise<string | null> {
+  try {
+    const { stdout } = await execFileAsync(
+      "gh",
+      ["pr", "view", branch, "--json", "url,state"],
+      { cwd, timeout: GH_TIMEOUT_MS },
+    );
+    const pr = JSON.parse(stdout) as { url?: string; state?: string };
+    return pr.state === "OPEN" && pr.url ? pr.url : null;
+  } catch {
+    // No gh, not a GitHub repo, or no PR for the branch
+    return null;
+  }
+}
+
+async function matchPrUrl(
+  source: AttachmentSource,
+  prUrl: string,
+): Promise<MatchResult | null> {
+  const issues = await source.findIssuesByAttachmentUrl(prUrl);
+  const unique = new Map(issues.map((issue) => [issue.identifier, issue]));
+
+  if (unique.size !== 1) {
+    return null;
+  }
+
+  const [issue] = unique.values();
+  return toMatchResult(issue, `${prUrl} is attached to this issue`);
+}
+
+function toMatchResult(issue: LinearIssue, reasoning: string): MatchResult {
+  return {
+    issue,
+    confidence: ATTACHMENT_CONFIDENCE,
+    matchType: "attachment",
+    details: { reasoning },
+  };
+}
@@ -0,0 +1,104 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { Bm25Index, type Bm25Document } from "./bm25.js";
+
+function doc(id: string, title: string, description = ""): Bm25Document {
+  return {
+    id,
+    fields: [
+      { text: title, weight: 2 },
+      { text: description, weight: 1 },
+    ],
+  };
+}
+
+describe("Bm25Index", () => {
+  const documents = [
+    doc("ENG-1", "Fix login redirect loop", "OAuth callback redirects forever"),
+    doc("ENG-2", "Add CSV export", "Export billing reports"),
+    doc("ENG-3", "Update dependencies", "Bump the login library and others"),
+  ];
+
+  test("ranks the best matching document first", () => {
+    const results = new Bm25Index(documents).search("login redirect", 10);
+
+    assert.deepEqual(
+      results.map((result) => result.id),
+      ["ENG-1", "ENG-3"],
+    );
+    assert.ok(results[0].score > results[1].score);
+  });
+
+  test("leaves out documents sharing no term with the query", () => {
+    const results = new Bm25Index(documents).search("csv", 10);
+
+    assert.deepEqual(
+      results.map((result) => result.id),
+      ["ENG-2"],
+    );
+    assert.deepEqual(new Bm25Index(documents).search("kubernetes", 10), []);
+  });
+
+  test("scores a title hit above the same term in the description", () => {
+    const index = new Bm25Index([
+      doc("title", "Payment webhook", "Unrelated words here"),
+      doc("description", "Unrelated words here", "Payment webhook"),
+    ]);
+
+    assert.deepEqual(
+      index.search("webhook", 10).map((result) => result.id),
+      ["title", "description"],
+    );
+  });
+
+  test("weighs rare terms above common ones", () => {
+    const index = new Bm25Index([
+      doc("A", "cache bug"),
+      doc("B", "cache crash"),
+      doc("C", "cache timeout"),
+      doc("D", "unrelated"),
+    ]);
+    const [best] = index.search("cache crash", 10);
+
+    assert.equal(best.id, "B");
+    const cacheOnly = index.search("cache", 10);
+    assert.ok(best.score > cacheOnly[0].score);
+  });
+
+  test("penalizes long documents when b > 0", () => {
+    const long = doc("long", `sync ${"filler ".repeat(40)}`);
+    const short = doc("short", "sync");
+
+    const normalized = new Bm25Index([long, short]).search("sync", 10);
+    assert.equal(normalized[0].id, "short");
+
+    const unnormalized = new Bm25Index([long, short], { b: 0 }).search(
+      "sync",
+      10,
+    );
+    assert.equal(unnormalized[0].score, unnormalized[1].score);
+  });
+
+  test("counts each query term once and honours the limit", () => {
+    const index = new Bm25Index(documents);
+
+    assert.deepEqual(
+      index.search("login login login", 10),
+      index.search("login", 10),
+    );
+    assert.equal(index.search("login", 1).length, 1);
+  });
+
+  test("matches Japanese text through bigrams", () => {
+    const index = new Bm25Index([
+      doc("JA-1", "認証エラーの修正"),
+      doc("JA-2", "請求書のエクスポート"),
+    ]);
+
+    assert.equal(index.search("認証", 10)[0]?.id, "JA-1");
+  });
+
+  test("returns nothing from an empty index", () => {
+    assert.deepEqual(new Bm25Index([]).search("anything", 10), []);
+  });
+});
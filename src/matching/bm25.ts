@@ -0,0 +1,102 @@
+import { tokenize } from "./tokenizer.js";
+
+/**
+ * Document to index; fields are weighted by repeating their terms
+ */
+export interface Bm25Document {
+  id: string;
+  fields: { text: string; weight: number }[];
+}
+
+/**
+ * BM25 tuning parameters
+ */
+export interface Bm25Options {
+  /** Term frequency saturation */
+  k1: number;
+  /** Document length normalization (0 = none, 1 = full) */
+  b: number;
+}
+
+const DEFAULT_OPTIONS: Bm25Options = {
+  k1: 1.2,
+  b: 0.75,
+};
+
+/**
+ * In-memory BM25 index
+ */
+export class Bm25Index {
+  private options: Bm25Options;
+  private termFrequencies: Map<string, Map<string, number>> = new Map();
+  private documentLengths: Map<string, number> = new Map();
+  private documentFrequencies: Map<string, number> = new Map();
+  private averageLength = 0;
+
+  constructor(documents: Bm25Document[], options?: Partial<Bm25Options>) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+
+    let totalLength = 0;
+    for (const document of documents) {
+      const frequencies = new Map<string, number>();
+      let length = 0;
+
+      for (const field of document.fields) {
+        for (const term of tokenize(field.text)) {
+          frequencies.set(term, (frequencies.get(term) ?? 0) + field.weight);
+          length += field.weight;
+        }
+      }
+
+      for (const term of frequencies.keys()) {
+        this.documentFrequencies.set(
+          term,
+          (this.documentFrequencies.get(term) ?? 0) + 1,
+        );
+      }
+
+      this.termFrequencies.set(document.id, frequencies);
+      this.documentLengths.set(document.id, length);
+      totalLength += length;
+    }
+
+    this.averageLength = documents.length > 0 ? totalLength / documents.length : 0;
+  }
+
+  /**
+   * Ranks documents against a query, best first
+   */
+  search(query: string, limit: number): { id: string; score: number }[] {
+    const terms = [...new Set(tokenize(query))];
+    const documentCount = this.termFrequencies.size;
+    const { k1, b } = this.options;
+    const results: { id: string; score: number }[] = [];
+
+    for (const [id, frequencies] of this.termFrequencies) {
+      const lengthRatio =
+        this.averageLength > 0
+          ? this.documentLengths.get(id)! / this.averageLength
+          : 0;
+      let score = 0;
+
+      for (const term of terms) {
+        const frequency = frequencies.get(term);
+        if (!frequency) {
+          continue;
+        }
+
+        const df = this.documentFrequencies.get(term) ?? 0;
+        const idf = Math.log(1 + (documentCount - df + 0.5) / (df + 0.5));
+        score +=
+          (idf * frequency * (k1 + 1)) /
+          (frequency + k1 * (1 - b + b * lengthRatio));
+      }
+
+      if (score > 0) {
+        results.push({ id, score });
+      }
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
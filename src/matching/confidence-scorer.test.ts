@@ -0,0 +1,153 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  calculateConfidence,
+  calculateContinuity,
+  DEFAULT_SCORING_WEIGHTS,
+} from "./confidence-scorer.js";
+import type {
+  ExtractedSessionContent,
+  ScoringSignals,
+  SessionHistoryEntry,
+} from "./types.js";
+
+describe("calculateConfidence", () => {
+  const noOverlap: ScoringSignals = {
+    keywordScore: 0,
+    titleMatch: 0,
+    descriptionMatch: 0,
+    projectMatch: true,
+    stateBonus: 1,
+    recencyBonus: 1,
+    assignedToMe: true,
+  };
+
+  test("keeps an issue without text overlap below the review threshold", () => {
+    assert.ok(calculateConfidence(noOverlap) < 0.4);
+  });
+
+  test("rises with the keyword search score", () => {
+    const retrieved = { ...noOverlap, keywordScore: 1 };
+
+    assert.ok(calculateConfidence(retrieved) > calculateConfidence(noOverlap));
+  });
+
+  test("ignores the weight of unknown signals", () => {
+    const signals: ScoringSignals = {
+      keywordScore: 1,
+      titleMatch: 1,
+      descriptionMatch: 1,
+      projectMatch: true,
+      stateBonus: 1,
+    };
+
+    assert.equal(calculateConfidence(signals), 1);
+  });
+
+  test("returns 0 when every weight is 0", () => {
+    const weights = Object.fromEntries(
+      Object.keys(DEFAULT_SCORING_WEIGHTS).map((key) => [key, 0]),
+    ) as unknown as typeof DEFAULT_SCORING_WEIGHTS;
+
+    assert.equal(calculateConfidence(noOverlap, weights), 0);
+  });
+});
+
+describe("calculateContinuity", () => {
+  const now = Date.parse("2026-01-02T00:00:00Z");
+  const hoursAgo = (hours: number) =>
+    new Date(now - hours * 60 * 60 * 1000).toISOString();
+
+  const content: ExtractedSessionContent = {
+    primaryRequest: "",
+    additionalContext: [],
+    keywords: [],
+    cwd: "/repo",
+    projectName: "repo",
+    toolPatterns: [],
+    filePaths: ["/repo/a.ts", "/repo/b.ts"],
+    pathTerms: [],
+    technologies: [],
+    sessionId: "current",
+    timeRange: { start: "", end: "" },
+  };
+
+  function entry(
+    overrides: Partial<SessionHistoryEntry>,
+  ): SessionHistoryEntry {
+    return {
+      sessionId: "earlier",
+      issueIdentifier: "ENG-1",
+      cwd: "/repo",
+      filePaths: [],
+      lastSyncedAt: hoursAgo(0),
+      ...overrides,
+    };
+  }
+
+  test("scores half for the cwd and half for the shared files", () => {
+    const signals = calculateContinuity(
+      content,
+      [
+        entry({ issueIdentifier: "ENG-1" }),
+        entry({
+          issueIdentifier: "ENG-2",
+          cwd: "/other",
+          filePaths: ["/repo/a.ts"],
+        }),
+        entry({
+          issueIdentifier: "ENG-3",
+          filePaths: ["/repo/a.ts", "/repo/b.ts"],
+        }),
+      ],
+      24,
+      now,
+    );
+
+    assert.equal(signals.get("ENG-1")?.score, 0.5);
+    assert.equal(signals.get("ENG-2")?.score, 0.5);
+    assert.deepEqual(signals.get("ENG-2")?.sharedFiles, ["/repo/a.ts"]);
+    assert.equal(signals.get("ENG-3")?.score, 1);
+  });
+
+  test("halves the score every half-life", () => {
+    const signals = calculateContinuity(
+      content,
+      [entry({ lastSyncedAt: hoursAgo(24) })],
+      24,
+      now,
+    );
+
+    assert.equal(signals.get("ENG-1")?.score, 0.25);
+    assert.equal(signals.get("ENG-1")?.ageHours, 24);
+  });
+
+  test("keeps the strongest earlier session per issue", () => {
+    const signals = calculateContinuity(
+      content,
+      [
+        entry({ sessionId: "old", lastSyncedAt: hoursAgo(48) }),
+        entry({ sessionId: "recent", lastSyncedAt: hoursAgo(1) }),
+      ],
+      24,
+      now,
+    );
+
+    assert.equal(signals.get("ENG-1")?.sessionId, "recent");
+  });
+
+  test("ignores the session itself, unsynced and unrelated sessions", () => {
+    const signals = calculateContinuity(
+      content,
+      [
+        entry({ sessionId: "current", issueIdentifier: "ENG-1" }),
+        entry({ issueIdentifier: "ENG-2", lastSyncedAt: undefined }),
+        entry({ issueIdentifier: "ENG-3", cwd: "/other" }),
+      ],
+      24,
+      now,
+    );
+
+    assert.equal(signals.size, 0);
+  });
+});
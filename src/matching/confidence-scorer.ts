@@ -1,47 +1,132 @@
-import type { ScoringSignals } from "./types.js";
+import type { LinearIssue } from "../linear/client.js";
+import type {
+  ContinuitySignal,
+  ExtractedSessionContent,
+  ScoringSignals,
+  ScoringWeights,
+  SessionHistoryEntry,
+} from "./types.js";
+import { extractKeywords } from "./tokenizer.js";
 
 /**
- * Scoring weights for different signals
+ * Default weights for the issue-side signals (semantic score is blended
+ * in afterwards via semanticWeight)
  */
-const WEIGHTS = {
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+  keywordScore: 0.25,
   titleMatch: 0.35,
-  descriptionMatch: 0.25,
+  descriptionMatch: 0.2,
   projectMatch: 0.15,
-  semanticScore: 0.2,
-  stateBonus: 0.03,
-  recencyBonus: 0.02,
+  stateBonus: 0.1,
+  recencyBonus: 0.1,
+  assignedToMe: 0.1,
 };
 
 /**
  * Calculates confidence score from multiple signals
+ *
+ * Weighted average of the known signals, so weights need not sum to 1.
  */
-export function calculateConfidence(signals: ScoringSignals): number {
+export function calculateConfidence(
+  signals: ScoringSignals,
+  weights: ScoringWeights = DEFAULT_SCORING_WEIGHTS,
+): number {
+  const totalWeight =
+    weights.keywordScore +
+    weights.titleMatch +
+    weights.descriptionMatch +
+    weights.projectMatch +
+    weights.stateBonus +
+    (signals.recencyBonus !== undefined ? weights.recencyBonus : 0) +
+    (signals.assignedToMe !== undefined ? weights.assignedToMe : 0);
+
+  if (totalWeight <= 0) {
+    return 0;
+  }
+
   let score = 0;
 
+  // Keyword search score (how the candidate was retrieved)
+  score += signals.keywordScore * weights.keywordScore;
+
   // Title match (high weight)
-  score += signals.titleMatch * WEIGHTS.titleMatch;
+  score += signals.titleMatch * weights.titleMatch;
 
   // Description match (medium weight)
-  score += signals.descriptionMatch * WEIGHTS.descriptionMatch;
+  score += signals.descriptionMatch * weights.descriptionMatch;
 
   // Project name match (bonus)
   if (signals.projectMatch) {
-    score += WEIGHTS.projectMatch;
-  }
-
-  // Semantic score (if available)
-  if (signals.semanticScore !== undefined) {
-    score += signals.semanticScore * WEIGHTS.semanticScore;
+    score += weights.projectMatch;
   }
 
   // State bonus (in-progress issues are more likely relevant)
-  score += signals.stateBonus * WEIGHTS.stateBonus;
+  score += signals.stateBonus * weights.stateBonus;
 
   // Recency bonus (recently updated issues are more likely relevant)
-  score += signals.recencyBonus * WEIGHTS.recencyBonus;
+  score += (signals.recencyBonus ?? 0) * weights.recencyBonus;
+
+  // Ownership bonus (my issues are more likely relevant)
+  if (signals.assignedToMe) {
+    score += weights.assignedToMe;
+  }
 
   // Cap score at 1.0
-  return Math.min(1.0, score);
+  return Math.min(1.0, score / totalWeight);
+}
+
+/**
+ * Measures the issue-side signals for a candidate, given its keyword
+ * search score
+ */
+export function extractScoringSignals(
+  issue: LinearIssue,
+  content: ExtractedSessionContent,
+  keywordScore: number,
+  viewerId?: string | null,
+): ScoringSignals {
+  const sessionTerms = new Set([
+    ...content.keywords.map((keyword) => keyword.toLowerCase()),
+    ...extractKeywords(content.primaryRequest),
+  ]);
+
+  // Share of the title's terms that appear in the session
+  const titleWords = extractKeywords(issue.title);
+  const titleMatch =
+    titleWords.length > 0
+      ? titleWords.filter((word) => sessionTerms.has(word)).length /
+        titleWords.length
+      : 0;
+
+  // Share of the session keywords found in the description (saturates at 5)
+  const description = (issue.description || "").normalize("NFKC").toLowerCase();
+  const descriptionHits = description
+    ? content.keywords.filter((keyword) =>
+        description.includes(keyword.toLowerCase()),
+      ).length
+    : 0;
+  const descriptionMatch = Math.min(
+    1.0,
+    descriptionHits / Math.min(5, Math.max(1, content.keywords.length)),
+  );
+
+  const projectName = content.projectName.toLowerCase();
+  const projectMatch =
+    !!projectName &&
+    ((issue.project?.name.toLowerCase().includes(projectName) ?? false) ||
+      `${issue.title} ${description}`.toLowerCase().includes(projectName));
+
+  return {
+    keywordScore,
+    titleMatch,
+    descriptionMatch,
+    projectMatch,
+    stateBonus: calculateStateBonus(issue.state.name),
+    recencyBonus: issue.updatedAt
+      ? calculateRecencyBonus(issue.updatedAt)
+      : undefined,
+    assignedToMe: viewerId ? issue.assignee?.id === viewerId : undefined,
+  };
 }
 
 /**
@@ -69,6 +154,61 @@ export function combineScores(
   );
 }
 
+/**
+ * Best continuity signal per issue from the sync history
+ *
+ * An earlier session counts half for sharing the cwd and half for the share
+ * of the smaller file set it has in common with this one, then decays by
+ * half every `halfLifeHours` since it last synced.
+ */
+export function calculateContinuity(
+  content: ExtractedSessionContent,
+  history: SessionHistoryEntry[],
+  halfLifeHours: number,
+  now: number = Date.now(),
+): Map<string, ContinuitySignal> {
+  const currentFiles = new Set(content.filePaths);
+  const signals = new Map<string, ContinuitySignal>();
+
+  for (const entry of history) {
+    if (entry.sessionId === content.sessionId || !entry.lastSyncedAt) {
+      continue;
+    }
+
+    const sameCwd = !!content.cwd && entry.cwd === content.cwd;
+    const previousFiles = entry.filePaths ?? [];
+    const sharedFiles = previousFiles.filter((path) => currentFiles.has(path));
+    const overlap =
+      sharedFiles.length > 0
+        ? sharedFiles.length / Math.min(currentFiles.size, previousFiles.length)
+        : 0;
+
+    const relatedness = (sameCwd ? 0.5 : 0) + 0.5 * overlap;
+    if (relatedness === 0) {
+      continue;
+    }
+
+    const ageHours = Math.max(
+      0,
+      (now - new Date(entry.lastSyncedAt).getTime()) / (1000 * 60 * 60),
+    );
+    const score = relatedness * Math.pow(0.5, ageHours / halfLifeHours);
+
+    const best = signals.get(entry.issueIdentifier);
+    if (!best || score > best.score) {
+      signals.set(entry.issueIdentifier, {
+        score,
+        sessionId: entry.sessionId,
+        sameCwd,
+        sharedFiles,
+        ageHours,
+      });
+    }
+  }
+
+  return signals;
+}
+
 /**
  * Determines if a match should be accepted based on confidence threshold
  */
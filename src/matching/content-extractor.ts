@@ -1,6 +1,28 @@
-import type { SessionLogEntry, ContentBlock } from "../daemon/parser.js";
+import { readFileSync } from "fs";
+import {
+  parseSessionLogLine,
+  type SessionLogEntry,
+  type ContentBlock,
+} from "../daemon/parser.js";
+import { extractKeywords } from "./tokenizer.js";
+import { detectTechnologies, extractPathTerms } from "./term-expansion.js";
 import type { ExtractedSessionContent } from "./types.js";
 
+/**
+ * Reads a transcript file and extracts its searchable content
+ */
+export function extractSessionContentFromFile(
+  transcriptPath: string,
+): ExtractedSessionContent {
+  const entries = readFileSync(transcriptPath, "utf-8")
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => parseSessionLogLine(line))
+    .filter((entry): entry is SessionLogEntry => entry !== null);
+
+  return extractSessionContent(entries);
+}
+
 /**
  * Extracts searchable content from session log entries
  */
@@ -32,6 +54,7 @@ export function extractSessionContent(
     additionalContext,
     projectName,
     filePaths,
+    cwd,
   );
 
   // Get time range
@@ -52,6 +75,8 @@ export function extractSessionContent(
     projectName,
     toolPatterns,
     filePaths,
+    pathTerms: collectPathTerms(filePaths, cwd),
+    technologies: collectTechnologies(filePaths),
     sessionId: entries[0]?.sessionId || "",
     timeRange,
   };
@@ -155,11 +180,12 @@ function extractFilePaths(assistantEntries: SessionLogEntry[]): string[] {
 /**
  * Generates search keywords from extracted content
  */
-function generateKeywords(
+export function generateKeywords(
   primaryRequest: string,
   additionalContext: string[],
   projectName: string,
   filePaths: string[],
+  cwd?: string,
 ): string[] {
   const keywords = new Set<string>();
 
@@ -169,212 +195,46 @@ function generateKeywords(
   }
 
   // Extract keywords from primary request
-  const requestKeywords = extractKeywordsFromText(primaryRequest);
+  const requestKeywords = extractKeywords(primaryRequest);
   for (const kw of requestKeywords) {
     keywords.add(kw);
   }
 
   // Extract keywords from additional context
   for (const context of additionalContext) {
-    const contextKeywords = extractKeywordsFromText(context);
+    const contextKeywords = extractKeywords(context);
     for (const kw of contextKeywords) {
       keywords.add(kw);
     }
   }
 
-  // Extract component/file names from file paths
-  for (const filePath of filePaths) {
-    const fileName = filePath.split("/").pop() || "";
-    const baseName = fileName.replace(/\.[^.]+$/, ""); // Remove extension
-    if (baseName && baseName.length > 2) {
-      keywords.add(baseName.toLowerCase());
-    }
+  // Extract component/directory names from file paths
+  for (const term of collectPathTerms(filePaths, cwd)) {
+    keywords.add(term);
+  }
+
+  // Technologies implied by the files touched
+  for (const technology of collectTechnologies(filePaths)) {
+    keywords.add(technology);
   }
 
   return Array.from(keywords);
 }
 
 /**
- * Extracts meaningful keywords from text
+ * Unique path terms across all file paths
  */
-function extractKeywordsFromText(text: string): string[] {
-  if (!text) {
-    return [];
-  }
+export function collectPathTerms(filePaths: string[], cwd?: string): string[] {
+  return [
+    ...new Set(filePaths.flatMap((filePath) => extractPathTerms(filePath, cwd))),
+  ];
+}
 
-  // Common stop words to filter out
-  const stopWords = new Set([
-    "the",
-    "a",
-    "an",
-    "is",
-    "are",
-    "was",
-    "were",
-    "be",
-    "been",
-    "being",
-    "have",
-    "has",
-    "had",
-    "do",
-    "does",
-    "did",
-    "will",
-    "would",
-    "could",
-    "should",
-    "may",
-    "might",
-    "must",
-    "shall",
-    "can",
-    "need",
-    "dare",
-    "ought",
-    "used",
-    "to",
-    "of",
-    "in",
-    "for",
-    "on",
-    "with",
-    "at",
-    "by",
-    "from",
-    "as",
-    "into",
-    "through",
-    "during",
-    "before",
-    "after",
-    "above",
-    "below",
-    "between",
-    "under",
-    "again",
-    "further",
-    "then",
-    "once",
-    "here",
-    "there",
-    "when",
-    "where",
-    "why",
-    "how",
-    "all",
-    "each",
-    "few",
-    "more",
-    "most",
-    "other",
-    "some",
-    "such",
-    "no",
-    "nor",
-    "not",
-    "only",
-    "own",
-    "same",
-    "so",
-    "than",
-    "too",
-    "very",
-    "just",
-    "and",
-    "but",
-    "if",
-    "or",
-    "because",
-    "until",
-    "while",
-    "although",
-    "this",
-    "that",
-    "these",
-    "those",
-    "i",
-    "me",
-    "my",
-    "myself",
-    "we",
-    "our",
-    "you",
-    "your",
-    "he",
-    "him",
-    "his",
-    "she",
-    "her",
-    "it",
-    "its",
-    "they",
-    "them",
-    "their",
-    "what",
-    "which",
-    "who",
-    "whom",
-    // Japanese particles and common words
-    "の",
-    "に",
-    "は",
-    "を",
-    "が",
-    "と",
-    "で",
-    "て",
-    "も",
-    "な",
-    "や",
-    "か",
-    "ら",
-    "へ",
-    "から",
-    "まで",
-    "より",
-    "など",
-    "ため",
-    "こと",
-    "もの",
-    "する",
-    "ある",
-    "いる",
-    "なる",
-    "できる",
-    "この",
-    "その",
-    "あの",
-    "どの",
-    "です",
-    "ます",
-    "した",
-    "して",
-    "という",
-    "ください",
-    "お願い",
-    "欲しい",
-    "したい",
-    "ほしい",
-  ]);
-
-  // Extract words (including Japanese and technical terms)
-  const words = text
-    .toLowerCase()
-    // Split on whitespace and common delimiters
-    .split(/[\s,.:;!?()[\]{}"'`]+/)
-    .filter((word) => {
-      // Filter out stop words and short words
-      if (stopWords.has(word)) return false;
-      if (word.length < 2) return false;
-      // Keep technical terms (camelCase, snake_case, etc.)
-      if (/^[a-z_][a-z0-9_-]*$/i.test(word)) return true;
-      // Keep Japanese words (hiragana, katakana, kanji)
-      if (/[\u3040-\u309f\u30a0-\u30ff\u4e00-\u9faf]/.test(word)) return true;
-      return false;
-    });
-
-  return words;
+/**
+ * Unique technologies across all file paths
+ */
+export function collectTechnologies(filePaths: string[]): string[] {
+  return [...new Set(filePaths.flatMap(detectTechnologies))];
 }
 
 /**
@@ -392,5 +252,12 @@ export function generateSearchQuery(content: ExtractedSessionContent): string {
   const topKeywords = content.keywords.slice(0, 5);
   parts.push(...topKeywords);
 
+  // Add the most specific code terms and technologies
+  const codeTerms = [
+    ...content.pathTerms.slice(0, 3),
+    ...content.technologies.slice(0, 2),
+  ].filter((term) => !parts.includes(term));
+  parts.push(...codeTerms);
+
   return parts.join(" ");
 }
@@ -0,0 +1,172 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  evaluateMatching,
+  findBestRun,
+  loadEvalDataset,
+  loadIssueSnapshot,
+  type EvalReport,
+  type EvalRunResult,
+} from "./eval.js";
+
+describe("evaluateMatching", () => {
+  let dir: string;
+  let report: EvalReport;
+
+  before(async () => {
+    dir = mkdtempSync(join(tmpdir(), "match-eval-"));
+    writeFileSync(
+      join(dir, "issues.json"),
+      JSON.stringify([
+        issue("ENG-1", "Fix login redirect loop"),
+        issue("ENG-2", "Add invoice export to billing"),
+      ]),
+    );
+
+    // With the keyword weight at 0 the semantic scores decide, except for
+    // cases the model finds nothing in: those keep their keyword confidence
+    const cases = [
+      // Linked correctly at both thresholds
+      ["linked.jsonl", "fix the login redirect loop", "ENG-1", { "ENG-1": 0.9 }],
+      // Too weak to review: a new issue instead of ENG-2
+      ["false-create.jsonl", "update the billing docs", "ENG-2", {}],
+      // Belongs to no issue but links to ENG-1
+      ["false-link.jsonl", "login redirect again", null, { "ENG-1": 0.9 }],
+      // Belongs to ENG-1 but links to ENG-2
+      ["wrong-issue.jsonl", "billing invoice export", "ENG-1", { "ENG-2": 0.9 }],
+      // Reviewed at 0.7, linked correctly at 0.4
+      ["review.jsonl", "invoice export for billing", "ENG-2", { "ENG-2": 0.5 }],
+      // Correctly left for a new issue
+      ["new.jsonl", "update the login docs", null, {}],
+    ] as const;
+
+    for (const [file, message] of cases) {
+      writeFileSync(join(dir, file), transcriptLine(message));
+    }
+    writeFileSync(
+      join(dir, "dataset.json"),
+      JSON.stringify({
+        cases: cases.map(([transcriptPath, , expected, semanticScores]) => ({
+          transcriptPath,
+          expected,
+          semanticScores,
+        })),
+      }),
+    );
+
+    report = await evaluateMatching(
+      loadEvalDataset(join(dir, "dataset.json")),
+      loadIssueSnapshot(join(dir, "issues.json")),
+      { thresholds: [0.7, 0.4], keywordWeights: [0] },
+    );
+  });
+
+  after(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("counts the outcomes and rates of each run", () => {
+    assert.equal(report.cases, 6);
+    assert.equal(report.issues, 2);
+
+    const [strict, lenient] = report.runs;
+    assert.deepEqual(summarize(strict), {
+      confidenceThreshold: 0.7,
+      semanticWeight: 1,
+      precision: 1 / 3,
+      recall: 1 / 4,
+      falseCreateRate: 1 / 4,
+      linked: 3,
+      reviewed: 1,
+      created: 2,
+    });
+    assert.deepEqual(summarize(lenient), {
+      confidenceThreshold: 0.4,
+      semanticWeight: 1,
+      precision: 2 / 4,
+      recall: 2 / 4,
+      falseCreateRate: 1 / 4,
+      linked: 4,
+      reviewed: 0,
+      created: 2,
+    });
+  });
+
+  test("lists each mismatch with its kind", () => {
+    assert.deepEqual(
+      report.runs[0].confusions.map((confusion) => [
+        confusion.transcriptPath,
+        confusion.kind,
+        confusion.expected,
+        confusion.predicted,
+      ]),
+      [
+        [join(dir, "false-create.jsonl"), "false_create", "ENG-2", null],
+        [join(dir, "false-link.jsonl"), "false_link", null, "ENG-1"],
+        [join(dir, "wrong-issue.jsonl"), "wrong_issue", "ENG-1", "ENG-2"],
+      ],
+    );
+  });
+
+  test("picks the run with the best F1", () => {
+    assert.equal(findBestRun(report), report.runs[1]);
+  });
+});
+
+describe("findBestRun", () => {
+  test("prefers balanced precision and recall and skips empty runs", () => {
+    const runs = [
+      run({ precision: 1, recall: 0.1 }),
+      run({ precision: 0.6, recall: 0.6 }),
+      run({ precision: null, recall: 0 }),
+    ];
+
+    assert.equal(findBestRun({ cases: 10, issues: 3, runs }), runs[1]);
+    assert.equal(findBestRun({ cases: 10, issues: 3, runs: [] }), null);
+  });
+});
+
+function issue(identifier: string, title: string) {
+  return {
+    id: `id-${identifier}`,
+    identifier,
+    title,
+    url: `https://linear.app/acme/issue/${identifier}`,
+    state: { id: "state-1", name: "In Progress", type: "started" },
+  };
+}
+
+function transcriptLine(message: string): string {
+  const entry = {
+    type: "user",
+    sessionId: "eval",
+    timestamp: "2026-01-01T00:00:00Z",
+    cwd: "/repo",
+    message: { role: "user", content: message },
+  };
+  return JSON.stringify(entry) + "\n";
+}
+
+function summarize(run: EvalRunResult) {
+  const { keywordWeight, confusions, ...rest } = run;
+  return rest;
+}
+
+function run(
+  scores: Pick<EvalRunResult, "precision" | "recall">,
+): EvalRunResult {
+  return {
+    confidenceThreshold: 0.7,
+    keywordWeight: 0.6,
+    semanticWeight: 0.4,
+    falseCreateRate: null,
+    linked: 0,
+    reviewed: 0,
+    created: 0,
+    confusions: [],
+    ...scores,
+  };
+}
@@ -0,0 +1,297 @@
+import { readFileSync } from "fs";
+import { dirname, resolve } from "path";
+import type { LinearIssue, LinearUser } from "../linear/client.js";
+import { LLMClient, type SemanticMatchResponse } from "../llm/client.js";
+import { extractSessionContentFromFile } from "./content-extractor.js";
+import { HybridMatcher } from "./hybrid-matcher.js";
+import { LocalIssueSource } from "./local-issue-source.js";
+import type {
+  ExtractedSessionContent,
+  HybridMatcherConfig,
+  MatchDecision,
+} from "./types.js";
+
+/**
+ * Labeled transcript for offline evaluation
+ */
+export interface EvalCase {
+  /** Resolved against the dataset file's directory */
+  transcriptPath: string;
+  /** Issue the session belongs to, or null if a new issue is correct */
+  expected: string | null;
+  /** Canned semantic scores by issue identifier, returned by the stub LLM */
+  semanticScores?: Record<string, number>;
+}
+
+/**
+ * Issues to match against, with the user the snapshot was taken as
+ */
+export interface IssueSnapshot {
+  issues: LinearIssue[];
+  /** Enables the "assigned to me" signal */
+  viewer?: LinearUser;
+}
+
+/**
+ * Matcher settings to try
+ */
+export interface EvalSweep {
+  thresholds: number[];
+  /** Semantic weight is 1 - keyword weight */
+  keywordWeights: number[];
+}
+
+/**
+ * Case whose outcome differs from its label
+ */
+export interface EvalConfusion {
+  transcriptPath: string;
+  kind: "wrong_issue" | "false_create" | "false_link";
+  expected: string | null;
+  predicted: string | null;
+  /** Confidence of the best candidate */
+  confidence: number | null;
+}
+
+/**
+ * Metrics for one matcher setting
+ */
+export interface EvalRunResult {
+  confidenceThreshold: number;
+  keywordWeight: number;
+  semanticWeight: number;
+  /** Correct links / all links (null when nothing was linked) */
+  precision: number | null;
+  /** Correct links / cases with an expected issue */
+  recall: number | null;
+  /** New issues created / cases with an expected issue */
+  falseCreateRate: number | null;
+  linked: number;
+  reviewed: number;
+  created: number;
+  confusions: EvalConfusion[];
+}
+
+/**
+ * Evaluation over a whole sweep
+ */
+export interface EvalReport {
+  cases: number;
+  issues: number;
+  runs: EvalRunResult[];
+}
+
+// The stub answers instantly, so rate limiting would only slow the sweep
+const UNLIMITED_CALLS_PER_MINUTE = Number.MAX_SAFE_INTEGER;
+
+/**
+ * LLM client answering with canned semantic scores, never spawning `claude`
+ *
+ * Only `complete` is stubbed, so the scores go through the same parsing and
+ * validation as a real response (scores for issues that weren't offered as
+ * candidates are dropped). Nothing is cached or recorded as usage.
+ */
+class StubLLMClient extends LLMClient {
+  private response: string;
+
+  constructor(scores: Record<string, number> = {}) {
+    super();
+    const response: SemanticMatchResponse = {
+      matches: Object.entries(scores).map(([issueId, relevanceScore]) => ({
+        issueId,
+        relevanceScore,
+        reasoning: "stub",
+        matchedAspects: [],
+      })),
+    };
+    this.response = JSON.stringify(response);
+  }
+
+  async complete(): Promise<string> {
+    return this.response;
+  }
+}
+
+/**
+ * Loads a dataset file: `{ "cases": [...] }` or a bare array of cases
+ */
+export function loadEvalDataset(datasetPath: string): EvalCase[] {
+  const parsed = JSON.parse(readFileSync(datasetPath, "utf-8"));
+  const cases: EvalCase[] = Array.isArray(parsed) ? parsed : parsed.cases;
+
+  if (!Array.isArray(cases)) {
+    throw new Error(`No cases found in ${datasetPath}`);
+  }
+
+  const baseDir = dirname(resolve(datasetPath));
+  return cases.map((evalCase) => ({
+    ...evalCase,
+    transcriptPath: resolve(baseDir, evalCase.transcriptPath),
+    expected: evalCase.expected ?? null,
+  }));
+}
+
+/**
+ * Loads an issue snapshot: `{ "issues": [...], "viewer"?: {...} }` or a
+ * bare array of issues
+ */
+export function loadIssueSnapshot(snapshotPath: string): IssueSnapshot {
+  const parsed = JSON.parse(readFileSync(snapshotPath, "utf-8"));
+  const snapshot: IssueSnapshot = Array.isArray(parsed)
+    ? { issues: parsed }
+    : parsed;
+
+  if (!Array.isArray(snapshot.issues)) {
+    throw new Error(`No issues found in ${snapshotPath}`);
+  }
+
+  return snapshot;
+}
+
+/**
+ * Runs the matcher over every case for every setting in the sweep
+ */
+export async function evaluateMatching(
+  cases: EvalCase[],
+  snapshot: IssueSnapshot,
+  sweep: EvalSweep,
+  baseConfig?: Partial<HybridMatcherConfig>,
+): Promise<EvalReport> {
+  const issueSource = new LocalIssueSource(
+    snapshot.issues,
+    snapshot.viewer ?? null,
+  );
+  const contents = cases.map((evalCase) =>
+    extractSessionContentFromFile(evalCase.transcriptPath),
+  );
+
+  const runs: EvalRunResult[] = [];
+
+  for (const keywordWeight of sweep.keywordWeights) {
+    for (const confidenceThreshold of sweep.thresholds) {
+      const config: Partial<HybridMatcherConfig> = {
+        ...baseConfig,
+        keywordWeight,
+        semanticWeight: 1 - keywordWeight,
+        confidenceThreshold,
+        enableSemantic: true,
+      };
+
+      const decisions: MatchDecision[] = [];
+      for (let i = 0; i < cases.length; i++) {
+        decisions.push(
+          await decideCase(issueSource, cases[i], contents[i], config),
+        );
+      }
+
+      runs.push(scoreRun(cases, decisions, config));
+    }
+  }
+
+  return { cases: cases.length, issues: snapshot.issues.length, runs };
+}
+
+/**
+ * Picks the run with the best F1 of precision and recall
+ */
+export function findBestRun(report: EvalReport): EvalRunResult | null {
+  let best: EvalRunResult | null = null;
+  let bestScore = -1;
+
+  for (const run of report.runs) {
+    const precision = run.precision ?? 0;
+    const recall = run.recall ?? 0;
+    const f1 =
+      precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+
+    if (f1 > bestScore) {
+      best = run;
+      bestScore = f1;
+    }
+  }
+
+  return best;
+}
+
+async function decideCase(
+  issueSource: LocalIssueSource,
+  evalCase: EvalCase,
+  content: ExtractedSessionContent,
+  config: Partial<HybridMatcherConfig>,
+): Promise<MatchDecision> {
+  const matcher = new HybridMatcher(
+    issueSource,
+    new StubLLMClient(evalCase.semanticScores),
+    config,
+    UNLIMITED_CALLS_PER_MINUTE,
+  );
+
+  return matcher.decide(content);
+}
+
+function scoreRun(
+  cases: EvalCase[],
+  decisions: MatchDecision[],
+  config: Partial<HybridMatcherConfig>,
+): EvalRunResult {
+  let correct = 0;
+  let linked = 0;
+  let reviewed = 0;
+  let created = 0;
+  let falseCreates = 0;
+  const confusions: EvalConfusion[] = [];
+
+  const positives = cases.filter((evalCase) => evalCase.expected).length;
+
+  cases.forEach((evalCase, index) => {
+    const decision = decisions[index];
+    const predicted =
+      decision.status === "matched" ? decision.match.issue.identifier : null;
+    const confidence = decision.candidates[0]?.confidence ?? null;
+
+    if (decision.status === "review" || decision.status === "ambiguous") {
+      reviewed++;
+      return;
+    }
+
+    let kind: EvalConfusion["kind"] | null = null;
+
+    if (decision.status === "matched") {
+      linked++;
+      if (predicted === evalCase.expected) {
+        correct++;
+      } else {
+        kind = evalCase.expected ? "wrong_issue" : "false_link";
+      }
+    } else {
+      created++;
+      if (evalCase.expected) {
+        falseCreates++;
+        kind = "false_create";
+      }
+    }
+
+    if (kind) {
+      confusions.push({
+        transcriptPath: evalCase.transcriptPath,
+        kind,
+        expected: evalCase.expected,
+        predicted,
+        confidence,
+      });
+    }
+  });
+
+  return {
+    confidenceThreshold: config.confidenceThreshold!,
+    keywordWeight: config.keywordWeight!,
+    semanticWeight: config.semanticWeight!,
+    precision: linked > 0 ? correct / linked : null,
+    recall: positives > 0 ? correct / positives : null,
+    falseCreateRate: positives > 0 ? falseCreates / positives : null,
+    linked,
+    reviewed,
+    created,
+    confusions,
+  };
+}
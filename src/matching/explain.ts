@@ -0,0 +1,52 @@
+import {
+  LinearClient,
+  type IssueFilterOptions,
+} from "../linear/client.js";
+import type { LLMClient } from "../llm/client.js";
+import { extractSessionContentFromFile } from "./content-extractor.js";
+import { HybridMatcher } from "./hybrid-matcher.js";
+import { IndexedIssueSource } from "./indexed-issue-source.js";
+import { SyncHistorySource } from "./sync-history-source.js";
+import type { HybridMatcherConfig, MatchExplanation } from "./types.js";
+
+/**
+ * Where an explanation gets its candidates and semantic scores from
+ */
+export interface ExplainOptions {
+  /** Retrieve candidates from the local issue index */
+  useIndex?: boolean;
+  /** Which issues may be candidates */
+  filter?: IssueFilterOptions;
+  /**
+   * Client for semantic matching, built with `createLLMClient(config.llm)`
+   * (null disables semantic matching)
+   */
+  llmClient: LLMClient | null;
+}
+
+/**
+ * Explains how a transcript would be matched, without linking or creating
+ * anything (only read-only Linear searches and the semantic LLM call)
+ */
+export async function explainTranscriptMatch(
+  transcriptPath: string,
+  config: Partial<HybridMatcherConfig>,
+  options: ExplainOptions,
+): Promise<MatchExplanation> {
+  const { useIndex = true, filter = {} } = options;
+  const linearClient = new LinearClient(undefined, filter);
+  const issueSource = useIndex
+    ? new IndexedIssueSource(linearClient, filter)
+    : linearClient;
+  const llmClient =
+    config.enableSemantic === false ? null : options.llmClient;
+  const matcher = new HybridMatcher(
+    issueSource,
+    llmClient,
+    config,
+    undefined,
+    new SyncHistorySource(),
+  );
+
+  return matcher.explain(extractSessionContentFromFile(transcriptPath));
+}
@@ -0,0 +1,167 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { LinearIssue } from "../linear/client.js";
+import { HybridMatcher } from "./hybrid-matcher.js";
+import { LocalIssueSource } from "./local-issue-source.js";
+import type { ExtractedSessionContent, HybridMatcherConfig } from "./types.js";
+
+const ISSUES: LinearIssue[] = [
+  issue("ENG-1", "Fix login redirect loop", "OAuth callback keeps redirecting"),
+  issue("ENG-2", "Add CSV export to billing reports", "Invoices as CSV"),
+  issue("ENG-3", "Upgrade build tooling", "Move the bundler to the new major"),
+];
+
+describe("HybridMatcher.explain", () => {
+  test("lists every candidate best first with its scoring details", async () => {
+    const matcher = keywordMatcher(ISSUES);
+    const explanation = await matcher.explain(
+      session("The login redirect loop is back after the OAuth callback change"),
+    );
+
+    assert.equal(explanation.candidates[0].issue.identifier, "ENG-1");
+    const confidences = explanation.candidates.map((c) => c.confidence);
+    assert.deepEqual(confidences, [...confidences].sort((a, b) => b - a));
+
+    const { details } = explanation.candidates[0];
+    assert.ok(details.matchedKeywords?.includes("login"));
+    assert.ok(details.strategies?.length);
+    assert.equal(details.semanticScore, undefined);
+  });
+
+  test("reports the same decision the matcher would act on", async () => {
+    const content = session("Fix the login redirect loop in the OAuth callback");
+    const explanation = await keywordMatcher(ISSUES).explain(content);
+    const decision = await keywordMatcher(ISSUES).decide(content);
+
+    assert.equal(explanation.decision, decision.status);
+    assert.deepEqual(
+      explanation.candidates.map((c) => [c.issue.identifier, c.confidence]),
+      decision.candidates.map((c) => [c.issue.identifier, c.confidence]),
+    );
+  });
+
+  test("shows the synonym-expanded keywords, search query and settings", async () => {
+    const matcher = keywordMatcher(ISSUES, {
+      synonyms: [["signin", "login"]],
+      confidenceThreshold: 0.9,
+    });
+    const explanation = await matcher.explain(
+      session("signin page redirects forever"),
+    );
+
+    assert.ok(explanation.content.keywords.includes("login"));
+    assert.ok(explanation.searchQuery.length > 0);
+    assert.equal(explanation.config.confidenceThreshold, 0.9);
+    assert.equal(explanation.config.enableSemantic, false);
+  });
+
+  test("marks candidates too close to call as ambiguous", async () => {
+    const twins = [
+      issue("ENG-10", "Fix flaky payment webhook retries", "Webhook retries"),
+      issue("ENG-11", "Fix flaky payment webhook retries", "Webhook retries"),
+    ];
+    const matcher = keywordMatcher(twins, {
+      confidenceThreshold: 0,
+      reviewThreshold: 0,
+    });
+    const explanation = await matcher.explain(
+      session("payment webhook retries are flaky"),
+    );
+
+    assert.equal(explanation.decision, "ambiguous");
+    assert.deepEqual(
+      explanation.candidates.map((c) => c.matchType),
+      ["ambiguous", "ambiguous"],
+    );
+  });
+
+  test("explains a session with no candidates", async () => {
+    const explanation = await keywordMatcher([]).explain(session("anything"));
+
+    assert.equal(explanation.decision, "none");
+    assert.deepEqual(explanation.candidates, []);
+  });
+});
+
+describe("HybridMatcher.findMatch", () => {
+  const twins = [
+    issue("ENG-10", "Fix flaky payment webhook retries", "Webhook retries"),
+    issue("ENG-11", "Fix flaky payment webhook retries", "Webhook retries"),
+  ];
+  const content = session("payment webhook retries are flaky");
+
+  test("returns the best match once it clears the threshold", async () => {
+    const matcher = keywordMatcher(twins.slice(0, 1), {
+      confidenceThreshold: 0,
+    });
+
+    const match = await matcher.findMatch(content);
+    assert.equal(match?.issue.identifier, "ENG-10");
+  });
+
+  test("returns null for a tie instead of picking one", async () => {
+    const matcher = keywordMatcher(twins, { confidenceThreshold: 0 });
+
+    assert.equal((await matcher.decide(content)).status, "ambiguous");
+    assert.equal(await matcher.findMatch(content), null);
+  });
+
+  test("returns null for a match that only merits review", async () => {
+    const matcher = keywordMatcher(twins.slice(0, 1), {
+      confidenceThreshold: 1,
+      reviewThreshold: 0,
+    });
+
+    assert.equal((await matcher.decide(content)).status, "review");
+    assert.equal(await matcher.findMatch(content), null);
+  });
+});
+
+function keywordMatcher(
+  issues: LinearIssue[],
+  config: Partial<HybridMatcherConfig> = {},
+): HybridMatcher {
+  return new HybridMatcher(
+    new LocalIssueSource(issues),
+    null,
+    { enableSemantic: false, ...config },
+    Number.MAX_SAFE_INTEGER,
+  );
+}
+
+function issue(
+  identifier: string,
+  title: string,
+  description: string,
+): LinearIssue {
+  return {
+    id: identifier.toLowerCase(),
+    identifier,
+    title,
+    description,
+    state: { id: "started", name: "In Progress", type: "started" },
+    updatedAt: new Date().toISOString(),
+    url: `https://linear.app/acme/issue/${identifier}`,
+  };
+}
+
+function session(request: string): ExtractedSessionContent {
+  const keywords = request
+    .toLowerCase()
+    .split(/\s+/)
+    .filter((word) => word.length > 2);
+
+  return {
+    primaryRequest: request,
+    additionalContext: [],
+    keywords,
+    cwd: "/repo/app",
+    projectName: "app",
+    toolPatterns: [],
+    filePaths: [],
+    pathTerms: [],
+    technologies: [],
+    sessionId: "session-1",
+    timeRange: { start: "", end: "" },
+  };
+}
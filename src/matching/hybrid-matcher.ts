@@ -1,44 +1,67 @@
-import type { LinearClient, LinearIssue } from "../linear/client.js";
 import type { LLMClient } from "../llm/client.js";
 import type {
   ExtractedSessionContent,
+  IssueSource,
   HybridMatcherConfig,
+  KeywordSearchResult,
+  MatchDecision,
+  MatchExplanation,
   MatchResult,
+  SessionHistorySource,
 } from "./types.js";
+import { generateSearchQuery } from "./content-extractor.js";
+import { expandSessionKeywords } from "./term-expansion.js";
 import { KeywordSearcher } from "./keyword-search.js";
 import { SemanticSearcher } from "./semantic-search.js";
-import { combineScores, calculateStateBonus } from "./confidence-scorer.js";
+import {
+  calculateConfidence,
+  calculateContinuity,
+  combineScores,
+  extractScoringSignals,
+  DEFAULT_SCORING_WEIGHTS,
+} from "./confidence-scorer.js";
 import { RateLimiter } from "../utils/rate-limiter.js";
 
 const DEFAULT_CONFIG: HybridMatcherConfig = {
   keywordWeight: 0.6,
   semanticWeight: 0.4,
   confidenceThreshold: 0.7,
+  reviewThreshold: 0.4,
+  ambiguityMargin: 0.05,
   maxCandidates: 10,
   enableSemantic: true,
+  signalWeights: DEFAULT_SCORING_WEIGHTS,
+  synonyms: [],
+  continuityWeight: 0.15,
+  continuityHalfLifeHours: 24,
 };
 
 /**
- * Hybrid matcher combining keyword and semantic search
+ * Hybrid matcher combining keyword and semantic search, boosted by
+ * continuity with earlier sessions when a sync history is given
  */
 export class HybridMatcher {
-  private linearClient: LinearClient;
+  private issueSource: IssueSource;
   private llmClient: LLMClient | null;
   private config: HybridMatcherConfig;
   private keywordSearcher: KeywordSearcher;
   private semanticSearcher: SemanticSearcher | null;
   private rateLimiter: RateLimiter;
+  private sessionHistory: SessionHistorySource | null;
+  private viewerId: Promise<string | null> | null = null;
 
   constructor(
-    linearClient: LinearClient,
+    issueSource: IssueSource,
     llmClient: LLMClient | null,
     config?: Partial<HybridMatcherConfig>,
     maxApiCallsPerMinute: number = 30,
+    sessionHistory: SessionHistorySource | null = null,
   ) {
-    this.linearClient = linearClient;
+    this.issueSource = issueSource;
+    this.sessionHistory = sessionHistory;
     this.llmClient = llmClient;
     this.config = { ...DEFAULT_CONFIG, ...config };
-    this.keywordSearcher = new KeywordSearcher(linearClient);
+    this.keywordSearcher = new KeywordSearcher(issueSource);
     this.semanticSearcher =
       llmClient && this.config.enableSemantic
         ? new SemanticSearcher(llmClient)
@@ -47,33 +70,98 @@ export class HybridMatcher {
   }
 
   /**
-   * Finds the best matching issue for a session
+   * Finds the issue to link a session to automatically
+   *
+   * Null unless the best match clears the threshold without a tie; use
+   * `decide` to tell review and ambiguous results apart.
    */
   async findMatch(
     sessionContent: ExtractedSessionContent,
   ): Promise<MatchResult | null> {
-    const matches = await this.findMatches(sessionContent);
+    const decision = await this.decide(sessionContent);
+    return decision.status === "matched" ? decision.match : null;
+  }
+
+  /**
+   * Decides whether to accept the best match, ask for review, or give up
+   */
+  async decide(sessionContent: ExtractedSessionContent): Promise<MatchDecision> {
+    return this.classify(await this.findMatches(sessionContent));
+  }
+
+  /**
+   * Scores a session against every candidate without acting on the result
+   */
+  async explain(
+    sessionContent: ExtractedSessionContent,
+  ): Promise<MatchExplanation> {
+    const decision = this.classify(await this.findMatches(sessionContent));
+    const expanded = expandSessionKeywords(
+      sessionContent,
+      this.config.synonyms,
+    );
+
+    return {
+      content: expanded,
+      searchQuery: generateSearchQuery(expanded),
+      config: { ...this.config },
+      candidates: decision.candidates,
+      decision: decision.status,
+    };
+  }
 
-    if (matches.length === 0) {
-      return null;
+  /**
+   * Applies the thresholds to candidates sorted best first
+   */
+  private classify(candidates: MatchResult[]): MatchDecision {
+    if (candidates.length === 0) {
+      return { status: "none", candidates };
     }
 
-    const bestMatch = matches[0];
+    const bestMatch = candidates[0];
 
-    // Only return if above confidence threshold
+    // Only accept if above confidence threshold
     if (bestMatch.confidence >= this.config.confidenceThreshold) {
-      return bestMatch;
+      // Too close to the runner-up to pick one without a human
+      const runnerUp = candidates[1];
+      if (
+        runnerUp &&
+        bestMatch.confidence - runnerUp.confidence < this.config.ambiguityMargin
+      ) {
+        return {
+          status: "ambiguous",
+          candidates: candidates.map((candidate) =>
+            bestMatch.confidence - candidate.confidence <
+            this.config.ambiguityMargin
+              ? { ...candidate, matchType: "ambiguous" }
+              : candidate,
+          ),
+        };
+      }
+
+      return { status: "matched", match: bestMatch, candidates };
+    }
+
+    // Close enough that a human should decide
+    if (bestMatch.confidence >= this.config.reviewThreshold) {
+      return { status: "review", candidates };
     }
 
-    return null;
+    return { status: "none", candidates };
   }
 
   /**
    * Finds all potential matches above a minimum score
    */
   async findMatches(
-    sessionContent: ExtractedSessionContent,
+    rawContent: ExtractedSessionContent,
   ): Promise<MatchResult[]> {
+    // Synonyms feed both the search queries and keyword scoring
+    const sessionContent = expandSessionKeywords(
+      rawContent,
+      this.config.synonyms,
+    );
+
     // Wait for rate limiter
     await this.rateLimiter.acquire();
 
@@ -92,7 +180,7 @@ export class HybridMatcher {
       }
 
       // Use recent results as candidates
-      return this.processResults(sessionContent, recentResults, []);
+      return this.processResults(sessionContent, recentResults, new Map());
     }
 
     // Limit candidates
@@ -128,38 +216,44 @@ export class HybridMatcher {
   /**
    * Processes search results and combines scores
    */
-  private processResults(
+  private async processResults(
     sessionContent: ExtractedSessionContent,
-    keywordResults: Array<{
-      issue: LinearIssue;
-      keywordScore: number;
-      matchedKeywords: string[];
-    }>,
-    semanticResults:
-      | Map<string, { score: number; reasoning: string }>
-      | Array<unknown>,
-  ): MatchResult[] {
-    const semanticMap =
-      semanticResults instanceof Map
-        ? semanticResults
-        : new Map<string, { score: number; reasoning: string }>();
-
+    keywordResults: KeywordSearchResult[],
+    semanticMap: Map<string, { score: number; reasoning: string }>,
+  ): Promise<MatchResult[]> {
+    const viewerId = await this.getViewerId();
+    const continuityMap = this.sessionHistory
+      ? calculateContinuity(
+          sessionContent,
+          this.sessionHistory.getLinkedSessions(),
+          this.config.continuityHalfLifeHours,
+        )
+      : new Map();
     const results: MatchResult[] = [];
 
     for (const keywordResult of keywordResults) {
-      const { issue, keywordScore, matchedKeywords } = keywordResult;
+      const { issue, keywordScore, matchedKeywords, strategies } = keywordResult;
       const semantic = semanticMap.get(issue.identifier);
+      const continuity = continuityMap.get(issue.identifier);
 
-      // Calculate state bonus
-      const stateBonus = calculateStateBonus(issue.state.name);
-
-      // Combine scores
-      const confidence = combineScores(
-        keywordScore + stateBonus * 0.1, // Add small state bonus to keyword score
+      // Score issue-side signals, blend in the semantic score, then boost
+      // issues that earlier sessions in this repo or on these files used
+      const signals = extractScoringSignals(
+        issue,
+        sessionContent,
+        keywordScore,
+        viewerId,
+      );
+      const combined = combineScores(
+        calculateConfidence(signals, this.config.signalWeights),
         semantic?.score,
         this.config.keywordWeight,
         this.config.semanticWeight,
       );
+      const confidence = Math.min(
+        1.0,
+        combined + (continuity?.score ?? 0) * this.config.continuityWeight,
+      );
 
       // Determine match type
       let matchType: MatchResult["matchType"];
@@ -177,9 +271,12 @@ export class HybridMatcher {
         matchType,
         details: {
           keywordScore,
+          signals,
           semanticScore: semantic?.score,
           matchedKeywords,
           reasoning: semantic?.reasoning,
+          strategies,
+          continuity,
         },
       });
     }
@@ -187,4 +284,19 @@ export class HybridMatcher {
     // Sort by confidence descending
     return results.sort((a, b) => b.confidence - a.confidence);
   }
+
+  /**
+   * Resolves the current user once (null if the source can't tell)
+   */
+  private getViewerId(): Promise<string | null> {
+    if (!this.viewerId) {
+      this.viewerId = this.issueSource.getViewer
+        ? this.issueSource
+            .getViewer()
+            .then((viewer) => viewer?.id ?? null)
+            .catch(() => null)
+        : Promise.resolve(null);
+    }
+    return this.viewerId;
+  }
 }
@@ -2,17 +2,43 @@
 export type {
   ExtractedSessionContent,
   KeywordSearchResult,
+  KeywordStrategy,
+  IssueSource,
   SemanticMatchResult,
   MatchResult,
+  MatchDecision,
+  MatchExplanation,
   HybridMatcherConfig,
+  SessionHistoryEntry,
+  SessionHistorySource,
+  ContinuitySignal,
   ScoringSignals,
+  ScoringWeights,
   MatchingConfig,
   SessionContext,
 } from "./types.js";
 
+// Tokenization
+export {
+  tokenize,
+  extractKeywords,
+  splitIdentifier,
+  isStopWord,
+} from "./tokenizer.js";
+export {
+  extractPathTerms,
+  detectTechnologies,
+  expandSynonyms,
+  expandSessionKeywords,
+} from "./term-expansion.js";
+
 // Content extraction
 export {
   extractSessionContent,
+  extractSessionContentFromFile,
+  generateKeywords,
+  collectPathTerms,
+  collectTechnologies,
   generateSearchQuery,
 } from "./content-extractor.js";
 
@@ -25,78 +51,282 @@ export { SemanticSearcher } from "./semantic-search.js";
 // Confidence scoring
 export {
   calculateConfidence,
+  extractScoringSignals,
+  DEFAULT_SCORING_WEIGHTS,
   combineScores,
   shouldAcceptMatch,
   calculateStateBonus,
   calculateRecencyBonus,
+  calculateContinuity,
 } from "./confidence-scorer.js";
 
 // Hybrid matcher
 export { HybridMatcher } from "./hybrid-matcher.js";
 
+// Local issue retrieval
+export { Bm25Index, type Bm25Document, type Bm25Options } from "./bm25.js";
+export { LocalIssueSource } from "./local-issue-source.js";
+export { IndexedIssueSource } from "./indexed-issue-source.js";
+export { SyncHistorySource } from "./sync-history-source.js";
+
+// PR/branch attachments
+export {
+  findAttachmentMatch,
+  getOpenPrUrl,
+  type OpenPrLookup,
+  type AttachmentSource,
+  type AttachmentLookup,
+} from "./attachment-matcher.js";
+
+// Match explanation
+export { explainTranscriptMatch } from "./explain.js";
+
+// Offline evaluation
+export {
+  loadEvalDataset,
+  loadIssueSnapshot,
+  evaluateMatching,
+  findBestRun,
+  type EvalCase,
+  type IssueSnapshot,
+  type EvalSweep,
+  type EvalConfusion,
+  type EvalRunResult,
+  type EvalReport,
+} from "./eval.js";
+
 // Convenience function
 import { HybridMatcher } from "./hybrid-matcher.js";
-import { LinearClient } from "../linear/client.js";
-import { LLMClient } from "../llm/client.js";
-import type { ExtractedSessionContent } from "./types.js";
+import { IndexedIssueSource } from "./indexed-issue-source.js";
+import { SyncHistorySource } from "./sync-history-source.js";
+import { findAttachmentMatch } from "./attachment-matcher.js";
+import {
+  generateKeywords,
+  collectPathTerms,
+  collectTechnologies,
+} from "./content-extractor.js";
+import {
+  LinearClient,
+  type IssueFilterOptions,
+} from "../linear/client.js";
+import type { MatchingConfig as MatchingSettings } from "../utils/config.js";
+import type { LLMClient } from "../llm/client.js";
+import type {
+  ExtractedSessionContent,
+  HybridMatcherConfig,
+  MatchResult,
+} from "./types.js";
+
+// Reused across calls so the rate limiter and index sync state persist;
+// keyed by everything the instance was built with
+const linearClients = new Map<string, LinearClient>();
+const matchers = new Map<LLMClient | null, Map<string, HybridMatcher>>();
+
+/**
+ * Outcome of looking up the issue for a session
+ */
+export type IssueMatchOutcome =
+  | {
+      status: "matched";
+      identifier: string;
+      matchedBy: "branch" | "attachment" | "fuzzy";
+    }
+  | { status: "review"; candidates: MatchResult[] }
+  | { status: "ambiguous"; candidates: MatchResult[] }
+  | { status: "none" };
 
-let cachedMatcher: HybridMatcher | null = null;
+/**
+ * Stages and sources used by `findMatchingIssue`
+ */
+export interface FindMatchingIssueOptions {
+  /** Retrieve fuzzy candidates from the local issue index */
+  useIndex?: boolean;
+  /** Look for issues the session's PR or branch is attached to */
+  useAttachments?: boolean;
+  /** Also ask `gh` for the open PR of the session's branch */
+  lookupOpenPr?: boolean;
+  /** Which issues may be fuzzy-match candidates */
+  filter?: IssueFilterOptions;
+  /**
+   * Client for semantic matching, built with `createLLMClient(config.llm)`
+   * (null disables semantic matching)
+   */
+  llmClient: LLMClient | null;
+}
+
+/**
+ * Matcher settings from the `matching` section of the config file
+ */
+export function toMatcherConfig(
+  matching: MatchingSettings,
+): Partial<HybridMatcherConfig> {
+  return {
+    keywordWeight: matching.keywordWeight,
+    semanticWeight: matching.semanticWeight,
+    confidenceThreshold: matching.confidenceThreshold,
+    reviewThreshold: matching.reviewThreshold,
+    enableSemantic: matching.enableSemantic,
+    signalWeights: matching.signalWeights,
+    ambiguityMargin: matching.ambiguityMargin,
+    synonyms: matching.synonyms,
+    continuityWeight: matching.continuity.weight,
+    continuityHalfLifeHours: matching.continuity.halfLifeHours,
+  };
+}
+
+/**
+ * Extract a Linear issue identifier from a git branch name
+ */
+export function extractIssueIdFromBranch(branch: string): string | null {
+  const match = branch.match(/([A-Z]+-\d+)/);
+  return match ? match[1] : null;
+}
 
 /**
  * Find matching Linear issue for session content
+ *
+ * Stages: the issue ID in the branch name, then PR/branch attachments, then
+ * fuzzy matching. With `useIndex`, fuzzy candidates come from the local
+ * issue index (falling back to the search API while the index is empty).
  */
 export async function findMatchingIssue(
-  content: { userMessages: string[]; assistantMessages: string[]; gitBranch?: string } | null,
+  content: {
+    /** Excluded from its own continuity history */
+    sessionId: string;
+    userMessages: string[];
+    assistantMessages: string[];
+    gitBranch?: string;
+    filePaths?: string[];
+    prUrl?: string;
+  } | null,
   cwd: string,
-): Promise<string | null> {
+  config: Partial<HybridMatcherConfig>,
+  options: FindMatchingIssueOptions,
+): Promise<IssueMatchOutcome> {
+  const {
+    useIndex = true,
+    useAttachments = true,
+    lookupOpenPr = true,
+    filter = {},
+    llmClient,
+  } = options;
+
   // ブランチ名からIssue IDを直接抽出を試みる
   if (content?.gitBranch) {
-    const match = content.gitBranch.match(/([A-Z]+-\d+)/);
-    if (match) {
-      return match[1];
+    const identifier = extractIssueIdFromBranch(content.gitBranch);
+    if (identifier) {
+      return { status: "matched", identifier, matchedBy: "branch" };
+    }
+  }
+
+  const linearClient = getLinearClient(filter);
+
+  // GitHub連携でPR/ブランチが添付済みのIssue
+  if (useAttachments) {
+    const attached = await findAttachmentMatch(linearClient, {
+      cwd,
+      gitBranch: content?.gitBranch,
+      prUrl: content?.prUrl,
+      lookupOpenPr,
+    });
+    if (attached) {
+      return {
+        status: "matched",
+        identifier: attached.issue.identifier,
+        matchedBy: "attachment",
+      };
     }
   }
 
   // セッションコンテンツがない場合は検索不可
   if (!content || content.userMessages.length === 0) {
-    return null;
+    return { status: "none" };
   }
 
   // HybridMatcherを使用
-  if (!cachedMatcher) {
-    const linearClient = new LinearClient();
-    const llmClient = new LLMClient();
-    cachedMatcher = new HybridMatcher(linearClient, llmClient);
-  }
+  const matcher = getMatcher(linearClient, llmClient, config, useIndex, filter);
 
   // Convert to ExtractedSessionContent format
   const projectName = cwd.split("/").pop() || "";
-  const keywords = extractKeywordsSimple(content.userMessages.join(" "));
+  const primaryRequest = content.userMessages[0] || "";
+  const additionalContext = content.userMessages.slice(1);
+  const filePaths = content.filePaths ?? [];
 
   const sessionContent: ExtractedSessionContent = {
-    primaryRequest: content.userMessages[0] || "",
-    additionalContext: content.userMessages.slice(1),
-    keywords,
+    primaryRequest,
+    additionalContext,
+    keywords: generateKeywords(
+      primaryRequest,
+      additionalContext,
+      projectName,
+      filePaths,
+      cwd,
+    ),
     cwd,
     projectName,
     toolPatterns: [],
-    filePaths: [],
-    sessionId: "",
+    filePaths,
+    pathTerms: collectPathTerms(filePaths, cwd),
+    technologies: collectTechnologies(filePaths),
+    sessionId: content.sessionId,
     timeRange: { start: "", end: "" },
   };
 
-  const result = await cachedMatcher.findMatch(sessionContent);
-  return result?.issue.identifier ?? null;
+  const decision = await matcher.decide(sessionContent);
+
+  switch (decision.status) {
+    case "matched":
+      return {
+        status: "matched",
+        identifier: decision.match.issue.identifier,
+        matchedBy: "fuzzy",
+      };
+    case "review":
+      return { status: "review", candidates: decision.candidates };
+    case "ambiguous":
+      return { status: "ambiguous", candidates: decision.candidates };
+    case "none":
+      return { status: "none" };
+  }
 }
 
-/**
- * Simple keyword extraction
- */
-function extractKeywordsSimple(text: string): string[] {
-  const stopWords = new Set(["the", "a", "an", "is", "are", "to", "of", "in", "for", "on", "with"]);
-  return text
-    .toLowerCase()
-    .split(/\s+/)
-    .filter((w) => w.length > 2 && !stopWords.has(w))
-    .slice(0, 20);
+function getLinearClient(filter: IssueFilterOptions): LinearClient {
+  const key = JSON.stringify(filter);
+  let client = linearClients.get(key);
+  if (!client) {
+    client = new LinearClient(undefined, filter);
+    linearClients.set(key, client);
+  }
+  return client;
+}
+
+function getMatcher(
+  linearClient: LinearClient,
+  llmClient: LLMClient | null,
+  config: Partial<HybridMatcherConfig>,
+  useIndex: boolean,
+  filter: IssueFilterOptions,
+): HybridMatcher {
+  let byConfig = matchers.get(llmClient);
+  if (!byConfig) {
+    byConfig = new Map();
+    matchers.set(llmClient, byConfig);
+  }
+
+  const key = JSON.stringify([config, useIndex, filter]);
+  let matcher = byConfig.get(key);
+  if (!matcher) {
+    const issueSource = useIndex
+      ? new IndexedIssueSource(linearClient, filter)
+      : linearClient;
+    matcher = new HybridMatcher(
+      issueSource,
+      llmClient,
+      config,
+      undefined,
+      new SyncHistorySource(),
+    );
+    byConfig.set(key, matcher);
+  }
+  return matcher;
 }
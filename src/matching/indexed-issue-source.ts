@@ -0,0 +1,55 @@
+import type {
+  IssueFilterOptions,
+  LinearIssue,
+  LinearUser,
+} from "../linear/client.js";
+import { getIssueIndexMtime, readIssueIndex } from "../state/issue-index.js";
+import { LocalIssueSource } from "./local-issue-source.js";
+import type { IssueSource } from "./types.js";
+
+/**
+ * Issue source reading the synced local index, reloaded whenever the index
+ * file changes; falls back to `fallback` (the API) until the index has issues
+ */
+export class IndexedIssueSource implements IssueSource {
+  private fallback: IssueSource;
+  private filter: IssueFilterOptions;
+  private local: LocalIssueSource | null = null;
+  // Before filtering, so a filter matching nothing doesn't hit the API
+  private indexedCount = 0;
+  private loadedMtime = -1;
+
+  constructor(fallback: IssueSource, filter: IssueFilterOptions = {}) {
+    this.fallback = fallback;
+    this.filter = filter;
+  }
+
+  async searchIssues(query: string): Promise<LinearIssue[]> {
+    return this.current().searchIssues(query);
+  }
+
+  async getRecentIssues(limit?: number): Promise<LinearIssue[]> {
+    return this.current().getRecentIssues(limit);
+  }
+
+  async getViewer(): Promise<LinearUser | null> {
+    const source = this.current();
+    return source.getViewer ? source.getViewer() : null;
+  }
+
+  private current(): IssueSource {
+    const mtime = getIssueIndexMtime();
+    if (mtime !== this.loadedMtime) {
+      const index = readIssueIndex();
+      this.local = new LocalIssueSource(
+        Object.values(index.issues),
+        index.viewer ?? null,
+        this.filter,
+      );
+      this.indexedCount = Object.keys(index.issues).length;
+      this.loadedMtime = mtime;
+    }
+
+    return this.local && this.indexedCount > 0 ? this.local : this.fallback;
+  }
+}
@@ -1,15 +1,21 @@
-import type { LinearClient, LinearIssue } from "../linear/client.js";
-import type { ExtractedSessionContent, KeywordSearchResult } from "./types.js";
+import type { LinearIssue } from "../linear/client.js";
+import type {
+  ExtractedSessionContent,
+  IssueSource,
+  KeywordSearchResult,
+  KeywordStrategy,
+} from "./types.js";
 import { generateSearchQuery } from "./content-extractor.js";
+import { extractKeywords, tokenize } from "./tokenizer.js";
 
 /**
  * Performs keyword-based search on Linear issues
  */
 export class KeywordSearcher {
-  private linearClient: LinearClient;
+  private issueSource: IssueSource;
 
-  constructor(linearClient: LinearClient) {
-    this.linearClient = linearClient;
+  constructor(issueSource: IssueSource) {
+    this.issueSource = issueSource;
   }
 
   /**
@@ -23,45 +29,21 @@ export class KeywordSearcher {
     // Strategy 1: Search with generated query
     const query = generateSearchQuery(content);
     if (query) {
-      const issues = await this.linearClient.searchIssues(query);
-      for (const issue of issues) {
-        const score = this.calculateKeywordScore(issue, content);
-        if (
-          !results.has(issue.identifier) ||
-          results.get(issue.identifier)!.keywordScore < score.keywordScore
-        ) {
-          results.set(issue.identifier, score);
-        }
-      }
+      const issues = await this.issueSource.searchIssues(query);
+      this.mergeResults(results, issues, content, "query");
     }
 
     // Strategy 2: Search with primary request keywords
     if (content.primaryRequest) {
       const requestQuery = content.primaryRequest.slice(0, 100);
-      const issues = await this.linearClient.searchIssues(requestQuery);
-      for (const issue of issues) {
-        const score = this.calculateKeywordScore(issue, content);
-        if (
-          !results.has(issue.identifier) ||
-          results.get(issue.identifier)!.keywordScore < score.keywordScore
-        ) {
-          results.set(issue.identifier, score);
-        }
-      }
+      const issues = await this.issueSource.searchIssues(requestQuery);
+      this.mergeResults(results, issues, content, "request");
     }
 
     // Strategy 3: Search with project name
     if (content.projectName) {
-      const issues = await this.linearClient.searchIssues(content.projectName);
-      for (const issue of issues) {
-        const score = this.calculateKeywordScore(issue, content);
-        if (
-          !results.has(issue.identifier) ||
-          results.get(issue.identifier)!.keywordScore < score.keywordScore
-        ) {
-          results.set(issue.identifier, score);
-        }
-      }
+      const issues = await this.issueSource.searchIssues(content.projectName);
+      this.mergeResults(results, issues, content, "project");
     }
 
     // Sort by score descending
@@ -70,6 +52,34 @@ export class KeywordSearcher {
     );
   }
 
+  /**
+   * Scores issues from one strategy, keeping the best score per issue
+   */
+  private mergeResults(
+    results: Map<string, KeywordSearchResult>,
+    issues: LinearIssue[],
+    content: ExtractedSessionContent,
+    strategy: KeywordStrategy,
+  ): void {
+    for (const issue of issues) {
+      const score = this.calculateKeywordScore(issue, content, strategy);
+      const existing = results.get(issue.identifier);
+
+      if (!existing) {
+        results.set(issue.identifier, score);
+        continue;
+      }
+
+      const strategies = existing.strategies.includes(strategy)
+        ? existing.strategies
+        : [...existing.strategies, strategy];
+      results.set(issue.identifier, {
+        ...(existing.keywordScore < score.keywordScore ? score : existing),
+        strategies,
+      });
+    }
+  }
+
   /**
    * Searches issues with recent/active filter using the new API method
    */
@@ -77,11 +87,11 @@ export class KeywordSearcher {
     content: ExtractedSessionContent,
     limit: number = 20,
   ): Promise<KeywordSearchResult[]> {
-    const issues = await this.linearClient.getRecentIssues(limit);
+    const issues = await this.issueSource.getRecentIssues(limit);
     const results: KeywordSearchResult[] = [];
 
     for (const issue of issues) {
-      const score = this.calculateKeywordScore(issue, content);
+      const score = this.calculateKeywordScore(issue, content, "recent");
       if (score.keywordScore > 0) {
         results.push(score);
       }
@@ -96,12 +106,16 @@ export class KeywordSearcher {
   private calculateKeywordScore(
     issue: LinearIssue,
     content: ExtractedSessionContent,
+    strategy: KeywordStrategy,
   ): KeywordSearchResult {
     const matchedKeywords: string[] = [];
     let score = 0;
 
-    const issueText = `${issue.title} ${issue.description || ""}`.toLowerCase();
-    const issueWords = new Set(issueText.split(/\s+/));
+    const issueText = `${issue.title} ${issue.description || ""}`
+      .normalize("NFKC")
+      .toLowerCase();
+    const titleText = issue.title.normalize("NFKC").toLowerCase();
+    const issueTerms = new Set(tokenize(issueText));
 
     // Check keyword matches
     for (const keyword of content.keywords) {
@@ -109,7 +123,7 @@ export class KeywordSearcher {
       if (issueText.includes(keywordLower)) {
         matchedKeywords.push(keyword);
         // Title match is worth more
-        if (issue.title.toLowerCase().includes(keywordLower)) {
+        if (titleText.includes(keywordLower)) {
           score += 0.15;
         } else {
           score += 0.05;
@@ -129,13 +143,10 @@ export class KeywordSearcher {
     }
 
     // Primary request similarity
-    const requestWords = content.primaryRequest
-      .toLowerCase()
-      .split(/\s+/)
-      .filter((w) => w.length > 2);
-    const requestMatches = requestWords.filter((w) => issueWords.has(w));
-    if (requestWords.length > 0) {
-      score += (requestMatches.length / requestWords.length) * 0.3;
+    const requestTerms = extractKeywords(content.primaryRequest);
+    const requestMatches = requestTerms.filter((term) => issueTerms.has(term));
+    if (requestTerms.length > 0) {
+      score += (requestMatches.length / requestTerms.length) * 0.3;
     }
 
     // Cap score at 1.0
@@ -145,6 +156,7 @@ export class KeywordSearcher {
       issue,
       matchedKeywords,
       keywordScore: score,
+      strategies: [strategy],
     };
   }
 }
@@ -0,0 +1,79 @@
+import {
+  matchesIssueFilter,
+  type IssueFilterOptions,
+  type LinearIssue,
+  type LinearUser,
+} from "../linear/client.js";
+import { Bm25Index } from "./bm25.js";
+import type { IssueSource } from "./types.js";
+
+// Same page size as LinearClient.searchIssues
+const SEARCH_LIMIT = 10;
+
+/**
+ * Issue source backed by an in-memory snapshot (no API calls)
+ *
+ * Issues failing `filter` are dropped up front, as the API would.
+ */
+export class LocalIssueSource implements IssueSource {
+  private issues: Map<string, LinearIssue>;
+  private viewer: LinearUser | null;
+  private index: Bm25Index;
+
+  constructor(
+    snapshot: LinearIssue[],
+    viewer: LinearUser | null = null,
+    filter: IssueFilterOptions = {},
+  ) {
+    const issues = snapshot.filter((issue) =>
+      matchesIssueFilter(issue, filter, viewer?.id ?? null),
+    );
+    this.issues = new Map(issues.map((issue) => [issue.identifier, issue]));
+    this.viewer = viewer;
+    this.index = new Bm25Index(
+      issues.map((issue) => ({
+        id: issue.identifier,
+        fields: [
+          { text: issue.title, weight: 2 },
+          { text: issue.description || "", weight: 1 },
+          {
+            text: (issue.labels ?? []).map((label) => label.name).join(" "),
+            weight: 1,
+          },
+        ],
+      })),
+    );
+  }
+
+  /**
+   * Number of issues in the snapshot that pass the filter
+   */
+  get size(): number {
+    return this.issues.size;
+  }
+
+  /**
+   * Returns the issues ranking highest for the query by BM25
+   */
+  async searchIssues(query: string): Promise<LinearIssue[]> {
+    return this.index
+      .search(query, SEARCH_LIMIT)
+      .map(({ id }) => this.issues.get(id)!);
+  }
+
+  /**
+   * Returns the most recently updated issues
+   */
+  async getRecentIssues(limit: number = 20): Promise<LinearIssue[]> {
+    return [...this.issues.values()]
+      .sort((a, b) => (b.updatedAt || "").localeCompare(a.updatedAt || ""))
+      .slice(0, limit);
+  }
+
+  /**
+   * Returns the snapshot's user, if recorded
+   */
+  async getViewer(): Promise<LinearUser | null> {
+    return this.viewer;
+  }
+}
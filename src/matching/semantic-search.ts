@@ -1,5 +1,6 @@
 import type { LinearIssue } from "../linear/client.js";
 import type { LLMClient } from "../llm/client.js";
+import { LLMBudgetExceededError } from "../llm/budget.js";
 import { formatIssueMatchingPrompt } from "../llm/prompts.js";
 import type { ExtractedSessionContent, SemanticMatchResult } from "./types.js";
 
@@ -54,7 +55,10 @@ export class SemanticSearcher {
     });
 
     try {
-      const response = await this.llmClient.matchIssues(prompt);
+      const response = await this.llmClient.matchIssues(
+        prompt,
+        candidateIssues.map((issue) => issue.identifier),
+      );
 
       // Map response to SemanticMatchResult
       const results: SemanticMatchResult[] = [];
@@ -78,7 +82,10 @@ export class SemanticSearcher {
       // Sort by relevance score descending
       return results.sort((a, b) => b.relevanceScore - a.relevanceScore);
     } catch (error) {
-      console.error("Semantic search failed:", error);
+      // Over the daily budget: keyword-only matching, already warned once
+      if (!(error instanceof LLMBudgetExceededError)) {
+        console.error("Semantic search failed:", error);
+      }
       return [];
     }
   }
@@ -0,0 +1,23 @@
+import { readAllSessionStates } from "../state/session-store.js";
+import type { SessionHistoryEntry, SessionHistorySource } from "./types.js";
+
+/**
+ * Session history read from the sync state, for the continuity boost
+ */
+export class SyncHistorySource implements SessionHistorySource {
+  getLinkedSessions(): SessionHistoryEntry[] {
+    return readAllSessionStates().flatMap((state) =>
+      state.issueIdentifier
+        ? [
+            {
+              sessionId: state.sessionId,
+              issueIdentifier: state.issueIdentifier,
+              cwd: state.cwd,
+              filePaths: state.filePaths,
+              lastSyncedAt: state.lastSyncedAt,
+            },
+          ]
+        : [],
+    );
+  }
+}
@@ -0,0 +1,128 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  detectTechnologies,
+  expandSessionKeywords,
+  expandSynonyms,
+  extractPathTerms,
+} from "./term-expansion.js";
+import type { ExtractedSessionContent } from "./types.js";
+
+describe("extractPathTerms", () => {
+  test("splits directories and the file name relative to cwd", () => {
+    assert.deepEqual(
+      extractPathTerms("/repo/src/payments/UserAuthService.ts", "/repo"),
+      ["payments", "userauthservice", "user", "auth", "service"],
+    );
+  });
+
+  test("skips generic and hidden segments", () => {
+    assert.deepEqual(
+      extractPathTerms("/repo/packages/app/src/utils/index.ts", "/repo"),
+      [],
+    );
+    assert.deepEqual(extractPathTerms("/repo/.github/ci.yml", "/repo"), ["ci"]);
+  });
+
+  test("keeps only the last three segments outside cwd", () => {
+    assert.deepEqual(
+      extractPathTerms("/home/me/other/billing/invoices/export.ts", "/repo"),
+      ["billing", "invoices", "export"],
+    );
+  });
+});
+
+describe("detectTechnologies", () => {
+  test("maps extensions and well-known file names", () => {
+    assert.deepEqual(detectTechnologies("src/App.tsx"), [
+      "typescript",
+      "react",
+    ]);
+    assert.deepEqual(detectTechnologies("Dockerfile"), ["docker"]);
+    assert.deepEqual(detectTechnologies("db/schema.prisma"), [
+      "prisma",
+      "database",
+    ]);
+  });
+
+  test("returns nothing for unknown files", () => {
+    assert.deepEqual(detectTechnologies("notes.txt"), []);
+    assert.deepEqual(detectTechnologies("LICENSE"), []);
+  });
+});
+
+describe("expandSynonyms", () => {
+  const groups = [["auth", "login", "認証"], ["bug", "不具合"]];
+
+  test("adds the aliases of each term right after it", () => {
+    assert.deepEqual(expandSynonyms(["login", "page"], groups), [
+      "login",
+      "auth",
+      "認証",
+      "page",
+    ]);
+  });
+
+  test("matches case- and width-insensitively without duplicates", () => {
+    const groups = [["ａｕｔｈ", "Login"]];
+
+    assert.deepEqual(expandSynonyms(["AUTH"], groups), ["AUTH", "login"]);
+    assert.deepEqual(expandSynonyms(["auth", "login"], groups), [
+      "auth",
+      "login",
+    ]);
+  });
+
+  test("returns the terms unchanged without groups", () => {
+    const terms = ["login"];
+    assert.equal(expandSynonyms(terms, []), terms);
+  });
+});
+
+describe("expandSessionKeywords", () => {
+  test("expands aliases mentioned in the messages, even multi-character CJK", () => {
+    const content = session("ログイン後の不具合を直す", ["ログイン"]);
+    const expanded = expandSessionKeywords(content, [["bug", "不具合"]]);
+
+    assert.deepEqual(expanded.keywords, ["ログイン", "不具合", "bug"]);
+    assert.deepEqual(content.keywords, ["ログイン"]);
+  });
+
+  test("matches Latin aliases as whole words only", () => {
+    const content = session("check the latest author list", []);
+    const groups = [
+      ["test", "テスト"],
+      ["auth", "login"],
+    ];
+
+    assert.deepEqual(expandSessionKeywords(content, groups).keywords, []);
+    assert.deepEqual(
+      expandSessionKeywords(session("fix the auth test", []), groups).keywords,
+      ["test", "テスト", "auth", "login"],
+    );
+  });
+
+  test("leaves the content alone without groups", () => {
+    const content = session("fix login", ["fix", "login"]);
+    assert.equal(expandSessionKeywords(content, []), content);
+  });
+});
+
+function session(
+  request: string,
+  keywords: string[],
+): ExtractedSessionContent {
+  return {
+    primaryRequest: request,
+    additionalContext: [],
+    keywords,
+    cwd: "/repo",
+    projectName: "repo",
+    toolPatterns: [],
+    filePaths: [],
+    pathTerms: [],
+    technologies: [],
+    sessionId: "session-1",
+    timeRange: { start: "", end: "" },
+  };
+}
@@ -0,0 +1,204 @@
+import { splitIdentifier, tokenize } from "./tokenizer.js";
+import type { ExtractedSessionContent } from "./types.js";
+
+// Scripts written without spaces, matched as substrings
+const CJK_PATTERN =
+  /[\p{Script=Han}\p{Script=Katakana}\p{Script=Hiragana}\p{Script=Hangul}]/u;
+
+/**
+ * File extension → technologies it implies
+ */
+const EXTENSION_TECHNOLOGIES: Record<string, string[]> = {
+  ts: ["typescript"],
+  tsx: ["typescript", "react"],
+  js: ["javascript"],
+  jsx: ["javascript", "react"],
+  mjs: ["javascript"],
+  vue: ["vue"],
+  svelte: ["svelte"],
+  py: ["python"],
+  rb: ["ruby"],
+  go: ["go"],
+  rs: ["rust"],
+  java: ["java"],
+  kt: ["kotlin", "android"],
+  swift: ["swift", "ios"],
+  dart: ["flutter"],
+  php: ["php"],
+  cs: ["csharp"],
+  sql: ["sql", "database"],
+  prisma: ["prisma", "database"],
+  graphql: ["graphql"],
+  gql: ["graphql"],
+  proto: ["protobuf", "grpc"],
+  tf: ["terraform", "infrastructure"],
+  css: ["css", "styling"],
+  scss: ["css", "styling"],
+  sh: ["shell"],
+  md: ["docs"],
+  mdx: ["docs"],
+};
+
+/**
+ * File names (without a telling extension) → technologies
+ */
+const FILE_NAME_TECHNOLOGIES: Record<string, string[]> = {
+  dockerfile: ["docker"],
+  "docker-compose.yml": ["docker"],
+  "docker-compose.yaml": ["docker"],
+  makefile: ["make"],
+  "package.json": ["npm"],
+  "cargo.toml": ["rust"],
+  "go.mod": ["go"],
+  gemfile: ["ruby"],
+};
+
+/**
+ * Path segments too common to say anything about the work
+ */
+const GENERIC_SEGMENTS = new Set([
+  "src",
+  "lib",
+  "libs",
+  "dist",
+  "build",
+  "out",
+  "app",
+  "apps",
+  "packages",
+  "pkg",
+  "internal",
+  "cmd",
+  "index",
+  "main",
+  "mod",
+  "utils",
+  "util",
+  "common",
+  "shared",
+  "helpers",
+  "home",
+  "users",
+  "root",
+  "tmp",
+  "node_modules",
+  "__tests__",
+]);
+
+/**
+ * Extracts terms from a file path: meaningful directory and file names,
+ * split into their identifier parts
+ * (src/payments/UserAuthService.ts → payments, userauthservice, user, auth, service)
+ */
+export function extractPathTerms(filePath: string, cwd?: string): string[] {
+  const relative =
+    cwd && filePath.startsWith(cwd + "/")
+      ? filePath.slice(cwd.length + 1)
+      : filePath.split("/").slice(-3).join("/");
+
+  const segments = relative.split("/").filter(Boolean);
+  const terms = new Set<string>();
+
+  segments.forEach((segment, index) => {
+    // Drop the extension from the file name
+    const name =
+      index === segments.length - 1 ? segment.replace(/\.[^.]+$/, "") : segment;
+    const lower = name.toLowerCase();
+
+    if (!lower || lower.startsWith(".") || GENERIC_SEGMENTS.has(lower)) {
+      return;
+    }
+
+    if (lower.length > 2) {
+      terms.add(lower);
+    }
+    for (const part of splitIdentifier(name)) {
+      terms.add(part);
+    }
+  });
+
+  return Array.from(terms);
+}
+
+/**
+ * Technologies implied by a file's name or extension
+ */
+export function detectTechnologies(filePath: string): string[] {
+  const fileName = (filePath.split("/").pop() || "").toLowerCase();
+
+  if (FILE_NAME_TECHNOLOGIES[fileName]) {
+    return FILE_NAME_TECHNOLOGIES[fileName];
+  }
+
+  const extension = fileName.includes(".") ? fileName.split(".").pop()! : "";
+  return EXTENSION_TECHNOLOGIES[extension] ?? [];
+}
+
+/**
+ * Adds the aliases of each term right after it
+ *
+ * `groups` lists interchangeable terms, e.g. ["auth", "login", "認証"].
+ */
+export function expandSynonyms(terms: string[], groups: string[][]): string[] {
+  if (groups.length === 0) {
+    return terms;
+  }
+
+  const aliases = new Map<string, string[]>();
+  for (const group of groups) {
+    const normalized = group.map((term) => term.normalize("NFKC").toLowerCase());
+    for (const term of normalized) {
+      aliases.set(term, [
+        ...(aliases.get(term) ?? []),
+        ...normalized.filter((other) => other !== term),
+      ]);
+    }
+  }
+
+  const expanded = new Set<string>();
+  for (const term of terms) {
+    expanded.add(term);
+    for (const alias of aliases.get(term.toLowerCase()) ?? []) {
+      expanded.add(alias);
+    }
+  }
+
+  return Array.from(expanded);
+}
+
+/**
+ * Expands a session's keywords with its synonym groups
+ *
+ * Aliases written in the messages count too, so multi-character CJK terms
+ * like 不具合 are found even though the tokenizer splits them into bigrams.
+ * Latin terms must appear as whole words ("test" is not in "latest").
+ */
+export function expandSessionKeywords(
+  content: ExtractedSessionContent,
+  groups: string[][],
+): ExtractedSessionContent {
+  if (groups.length === 0) {
+    return content;
+  }
+
+  const text = [content.primaryRequest, ...content.additionalContext]
+    .join("\n")
+    .normalize("NFKC")
+    .toLowerCase();
+  const words = new Set(tokenize(text));
+  const mentioned = groups
+    .flat()
+    .map((term) => term.normalize("NFKC").toLowerCase())
+    .filter((term) => {
+      if (CJK_PATTERN.test(term)) {
+        return text.includes(term);
+      }
+      const termWords = tokenize(term);
+      return termWords.length > 0 && termWords.every((word) => words.has(word));
+    });
+
+  return {
+    ...content,
+    keywords: expandSynonyms([...content.keywords, ...mentioned], groups),
+  };
+}
@@ -0,0 +1,101 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { extractKeywords, splitIdentifier, tokenize } from "./tokenizer.js";
+
+describe("tokenize", () => {
+  test("splits Latin text into lowercase words", () => {
+    assert.deepEqual(tokenize("Fix the Login bug"), [
+      "fix",
+      "the",
+      "login",
+      "bug",
+    ]);
+  });
+
+  test("splits Japanese into script runs with Han bigrams", () => {
+    assert.deepEqual(tokenize("認証エラーを修正する"), [
+      "認証",
+      "エラー",
+      "修正",
+      "する",
+    ]);
+  });
+
+  test("keeps katakana loanwords whole", () => {
+    assert.deepEqual(tokenize("ログイン画面のバグ"), [
+      "ログイン",
+      "画面",
+      "バグ",
+    ]);
+  });
+
+  test("turns Han runs into overlapping bigrams", () => {
+    assert.deepEqual(tokenize("認証処理"), ["認証", "証処", "処理"]);
+  });
+
+  test("turns Chinese and Korean runs into bigrams", () => {
+    assert.deepEqual(tokenize("修复登录"), ["修复", "复登", "登录"]);
+    assert.deepEqual(tokenize("로그인 오류"), ["로그", "그인", "오류"]);
+  });
+
+  test("drops single-character runs and words", () => {
+    assert.deepEqual(tokenize("日 本 a b の"), []);
+  });
+
+  test("separates CJK from adjacent Latin words", () => {
+    assert.deepEqual(tokenize("API認証をfixする"), [
+      "api",
+      "認証",
+      "fix",
+      "する",
+    ]);
+  });
+
+  test("normalizes full-width characters", () => {
+    assert.deepEqual(tokenize("ＡＰＩ１２３"), ["api123"]);
+  });
+
+  test("keeps identifiers whole and adds their parts", () => {
+    assert.deepEqual(tokenize("UserAuthService"), [
+      "userauthservice",
+      "user",
+      "auth",
+      "service",
+    ]);
+    assert.deepEqual(tokenize("rate_limiter"), [
+      "rate_limiter",
+      "rate",
+      "limiter",
+    ]);
+  });
+});
+
+describe("splitIdentifier", () => {
+  test("splits camelCase, acronyms, snake_case and kebab-case", () => {
+    assert.deepEqual(splitIdentifier("parseHTTPResponse"), [
+      "parse",
+      "http",
+      "response",
+    ]);
+    assert.deepEqual(splitIdentifier("kebab-case.name"), [
+      "kebab",
+      "case",
+      "name",
+    ]);
+  });
+});
+
+describe("extractKeywords", () => {
+  test("drops English and Japanese stopwords and duplicates", () => {
+    assert.deepEqual(extractKeywords("認証エラーを修正してください"), [
+      "認証",
+      "エラー",
+      "修正",
+    ]);
+    assert.deepEqual(extractKeywords("fix the login and the login page"), [
+      "fix",
+      "login",
+      "page",
+    ]);
+  });
+});
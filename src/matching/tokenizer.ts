@@ -0,0 +1,309 @@
+/**
+ * Script-aware tokenizer shared by keyword extraction, search and scoring
+ *
+ * Latin text splits into words. CJK text has no spaces, so it is split into
+ * script runs: Han and Hangul runs become character bigrams, katakana runs
+ * (mostly loanwords such as ログイン) stay whole, and hiragana runs (mostly
+ * particles and inflections) stay whole so stopwords can drop them.
+ * Code identifiers (UserAuthService, rate_limiter, kebab-case) are kept
+ * whole and also split into their parts.
+ */
+
+// Order matters: CJK runs are tried before the Latin word pattern
+const SEGMENT_PATTERN = new RegExp(
+  [
+    "(?<han>[\\p{Script=Han}々〆]+)",
+    "(?<katakana>[\\p{Script=Katakana}ー]+)",
+    "(?<hiragana>\\p{Script=Hiragana}+)",
+    "(?<hangul>\\p{Script=Hangul}+)",
+    "(?<word>[\\p{Script=Latin}\\p{Script=Cyrillic}\\p{Script=Greek}\\p{N}_](?:[\\p{Script=Latin}\\p{Script=Cyrillic}\\p{Script=Greek}\\p{N}_-]*[\\p{Script=Latin}\\p{Script=Cyrillic}\\p{Script=Greek}\\p{N}_])?)",
+  ].join("|"),
+  "gu",
+);
+
+const STOP_WORDS = new Set([
+  // English
+  "the",
+  "a",
+  "an",
+  "is",
+  "are",
+  "was",
+  "were",
+  "be",
+  "been",
+  "being",
+  "have",
+  "has",
+  "had",
+  "do",
+  "does",
+  "did",
+  "will",
+  "would",
+  "could",
+  "should",
+  "may",
+  "might",
+  "must",
+  "shall",
+  "can",
+  "need",
+  "dare",
+  "ought",
+  "used",
+  "to",
+  "of",
+  "in",
+  "for",
+  "on",
+  "with",
+  "at",
+  "by",
+  "from",
+  "as",
+  "into",
+  "through",
+  "during",
+  "before",
+  "after",
+  "above",
+  "below",
+  "between",
+  "under",
+  "again",
+  "further",
+  "then",
+  "once",
+  "here",
+  "there",
+  "when",
+  "where",
+  "why",
+  "how",
+  "all",
+  "each",
+  "few",
+  "more",
+  "most",
+  "other",
+  "some",
+  "such",
+  "no",
+  "nor",
+  "not",
+  "only",
+  "own",
+  "same",
+  "so",
+  "than",
+  "too",
+  "very",
+  "just",
+  "and",
+  "but",
+  "if",
+  "or",
+  "because",
+  "until",
+  "while",
+  "although",
+  "this",
+  "that",
+  "these",
+  "those",
+  "i",
+  "me",
+  "my",
+  "myself",
+  "we",
+  "our",
+  "you",
+  "your",
+  "he",
+  "him",
+  "his",
+  "she",
+  "her",
+  "it",
+  "its",
+  "they",
+  "them",
+  "their",
+  "what",
+  "which",
+  "who",
+  "whom",
+  // Japanese particles, auxiliaries and filler
+  "の",
+  "に",
+  "は",
+  "を",
+  "が",
+  "と",
+  "で",
+  "て",
+  "も",
+  "な",
+  "や",
+  "か",
+  "ら",
+  "へ",
+  "から",
+  "まで",
+  "より",
+  "など",
+  "ため",
+  "こと",
+  "もの",
+  "する",
+  "ある",
+  "いる",
+  "なる",
+  "できる",
+  "この",
+  "その",
+  "あの",
+  "どの",
+  "です",
+  "ます",
+  "した",
+  "して",
+  "という",
+  "ください",
+  "お願い",
+  "欲しい",
+  "したい",
+  "ほしい",
+  "ので",
+  "のに",
+  "のは",
+  "には",
+  "では",
+  "とは",
+  "ても",
+  "でも",
+  "けど",
+  "けれど",
+  "ように",
+  "ような",
+  "について",
+  "ですか",
+  "ません",
+  "ました",
+  "しない",
+  "されて",
+  "される",
+  "します",
+  "しました",
+  "ない",
+  "なく",
+  "なっ",
+  "いて",
+  "いた",
+  "おい",
+  "ちょっと",
+  "とか",
+  "それ",
+  "これ",
+  "あれ",
+  "どれ",
+  "ここ",
+  "そこ",
+  "ちゃんと",
+  "してください",
+  "しています",
+  "している",
+  "してる",
+  "してほしい",
+  // Japanese Han bigrams with little topical meaning
+  "場合",
+  "必要",
+  "今回",
+  "以下",
+  "以上",
+  "感じ",
+  "可能",
+  "部分",
+  "方法",
+  "状態",
+  "内容",
+  "対応",
+  "確認",
+]);
+
+/**
+ * Splits text into lowercase terms (duplicates kept, stopwords kept)
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+
+  // Case is kept until identifiers have been split on camelCase boundaries
+  for (const match of text.normalize("NFKC").matchAll(SEGMENT_PATTERN)) {
+    const groups = match.groups!;
+
+    if (groups.han) {
+      terms.push(...bigrams(groups.han));
+    } else if (groups.hangul) {
+      terms.push(...bigrams(groups.hangul));
+    } else if (groups.word) {
+      if (groups.word.length > 1) {
+        terms.push(groups.word.toLowerCase());
+      }
+      const parts = splitIdentifier(groups.word);
+      if (parts.length > 1) {
+        terms.push(...parts);
+      }
+    } else {
+      const run = groups.katakana ?? groups.hiragana;
+      if (run && [...run].length > 1) {
+        terms.push(run);
+      }
+    }
+  }
+
+  return terms;
+}
+
+/**
+ * Splits a code identifier into lowercase parts
+ * (UserAuthService → user, auth, service; rate_limiter → rate, limiter)
+ */
+export function splitIdentifier(identifier: string): string[] {
+  return identifier
+    .replace(/([\p{Ll}\p{N}])(\p{Lu})/gu, "$1 $2")
+    .replace(/(\p{Lu})(\p{Lu}\p{Ll})/gu, "$1 $2")
+    .split(/[\s_.-]+/)
+    .map((part) => part.toLowerCase())
+    .filter((part) => part.length > 1);
+}
+
+/**
+ * Extracts unique keywords from text, without stopwords
+ */
+export function extractKeywords(text: string): string[] {
+  return [...new Set(tokenize(text).filter((term) => !isStopWord(term)))];
+}
+
+/**
+ * Whether a term carries no topical meaning
+ */
+export function isStopWord(term: string): boolean {
+  return STOP_WORDS.has(term);
+}
+
+/**
+ * Character bigrams of a run; runs of one character yield nothing
+ */
+function bigrams(run: string): string[] {
+  const chars = [...run];
+  if (chars.length < 2) {
+    return [];
+  }
+
+  const result: string[] = [];
+  for (let i = 0; i < chars.length - 1; i++) {
+    result.push(chars[i] + chars[i + 1]);
+  }
+  return result;
+}
@@ -1,4 +1,4 @@
-import type { LinearIssue } from "../linear/client.js";
+import type { LinearIssue, LinearUser } from "../linear/client.js";
 import type { SessionLogEntry } from "../daemon/parser.js";
 
 /**
@@ -19,6 +19,10 @@ export interface ExtractedSessionContent {
   toolPatterns: string[];
   /** File paths mentioned in the session */
   filePaths: string[];
+  /** Directory/file name parts from filePaths (e.g. "payments", "auth") */
+  pathTerms: string[];
+  /** Technologies implied by file extensions (e.g. "typescript") */
+  technologies: string[];
   /** Session ID */
   sessionId: string;
   /** Timestamp range */
@@ -28,6 +32,21 @@ export interface ExtractedSessionContent {
   };
 }
 
+/**
+ * Where candidate issues come from (the Linear API or a local snapshot)
+ */
+export interface IssueSource {
+  searchIssues(query: string): Promise<LinearIssue[]>;
+  getRecentIssues(limit?: number): Promise<LinearIssue[]>;
+  /** User whose assigned issues get the ownership signal */
+  getViewer?(): Promise<LinearUser | null>;
+}
+
+/**
+ * Keyword search strategy that surfaced a candidate
+ */
+export type KeywordStrategy = "query" | "request" | "project" | "recent";
+
 /**
  * Result from keyword-based search
  */
@@ -35,6 +54,8 @@ export interface KeywordSearchResult {
   issue: LinearIssue;
   matchedKeywords: string[];
   keywordScore: number;
+  /** Strategies whose search returned this issue */
+  strategies: KeywordStrategy[];
 }
 
 /**
@@ -53,15 +74,52 @@ export interface SemanticMatchResult {
 export interface MatchResult {
   issue: LinearIssue;
   confidence: number;
-  matchType: "exact" | "keyword" | "semantic" | "hybrid";
+  /**
+   * "attachment": the session's PR or branch is attached to the issue;
+   * "ambiguous": cleared the threshold, but another candidate is too close
+   */
+  matchType:
+    | "exact"
+    | "attachment"
+    | "keyword"
+    | "semantic"
+    | "hybrid"
+    | "ambiguous";
   details: {
     keywordScore?: number;
+    /** Issue-side signals behind the non-semantic part of the confidence */
+    signals?: ScoringSignals;
     semanticScore?: number;
     matchedKeywords?: string[];
     reasoning?: string;
+    strategies?: KeywordStrategy[];
+    /** Link to an earlier session in the same repo or on the same files */
+    continuity?: ContinuitySignal;
   };
 }
 
+/**
+ * Outcome of matching a session, including candidates that fell short
+ */
+export type MatchDecision =
+  | { status: "matched"; match: MatchResult; candidates: MatchResult[] }
+  | { status: "review"; candidates: MatchResult[] }
+  | { status: "ambiguous"; candidates: MatchResult[] }
+  | { status: "none"; candidates: MatchResult[] };
+
+/**
+ * Full scoring breakdown of a match, for tuning weights
+ */
+export interface MatchExplanation {
+  content: ExtractedSessionContent;
+  /** Query sent by the "query" keyword strategy */
+  searchQuery: string;
+  config: HybridMatcherConfig;
+  /** Best first */
+  candidates: MatchResult[];
+  decision: MatchDecision["status"];
+}
+
 /**
  * Configuration for hybrid matching
  */
@@ -72,28 +130,95 @@ export interface HybridMatcherConfig {
   semanticWeight: number;
   /** Minimum confidence threshold for accepting a match */
   confidenceThreshold: number;
+  /**
+   * Lower bound of the "uncertain" band: a best candidate scoring between
+   * this and `confidenceThreshold` is parked for human review
+   */
+  reviewThreshold: number;
+  /**
+   * A best candidate leading the runner-up by less than this is ambiguous
+   * and not accepted, however high it scores
+   */
+  ambiguityMargin: number;
   /** Maximum number of candidate issues to consider */
   maxCandidates: number;
   /** Whether to enable semantic search (requires LLM API key) */
   enableSemantic: boolean;
+  /** Weights for the issue-side signals */
+  signalWeights: ScoringWeights;
+  /** Groups of interchangeable terms, e.g. ["auth", "login", "認証"] */
+  synonyms: string[][];
+  /** Confidence added for a fully continuous session (0.0 - 1.0) */
+  continuityWeight: number;
+  /** Hours after which the continuity boost of a session has halved */
+  continuityHalfLifeHours: number;
+}
+
+/**
+ * Earlier session linked to an issue, from our own sync history
+ */
+export interface SessionHistoryEntry {
+  sessionId: string;
+  issueIdentifier: string;
+  cwd?: string;
+  /** Files the session's tools touched */
+  filePaths?: string[];
+  /** When the session last synced; the boost decays from here */
+  lastSyncedAt?: string;
+}
+
+/**
+ * Provides the sync history for the continuity boost
+ */
+export interface SessionHistorySource {
+  getLinkedSessions(): SessionHistoryEntry[];
+}
+
+/**
+ * How strongly a candidate continues an earlier session
+ */
+export interface ContinuitySignal {
+  /** Relatedness after decay (0.0 - 1.0) */
+  score: number;
+  /** Earlier session that scored highest */
+  sessionId: string;
+  sameCwd: boolean;
+  sharedFiles: string[];
+  /** Hours since that session last synced */
+  ageHours: number;
 }
 
 /**
  * Signals used for confidence score calculation
  */
 export interface ScoringSignals {
-  /** Title keyword overlap score (0.0 - 1.0) */
+  /** Keyword search score: matched keywords and request terms (0.0 - 1.0) */
+  keywordScore: number;
+  /** Share of the issue title's words found in the session (0.0 - 1.0) */
   titleMatch: number;
   /** Description keyword overlap score (0.0 - 1.0) */
   descriptionMatch: number;
   /** Whether project name matches */
   projectMatch: boolean;
-  /** Semantic similarity score from LLM (0.0 - 1.0) */
-  semanticScore?: number;
-  /** Recency bonus for recently updated issues */
-  recencyBonus: number;
+  /** Recency bonus for recently updated issues (unknown without updatedAt) */
+  recencyBonus?: number;
   /** State bonus for in-progress issues */
   stateBonus: number;
+  /** Whether the issue is assigned to the API key's user (unknown without a viewer) */
+  assignedToMe?: boolean;
+}
+
+/**
+ * Relative weight of each scoring signal
+ */
+export interface ScoringWeights {
+  keywordScore: number;
+  titleMatch: number;
+  descriptionMatch: number;
+  projectMatch: number;
+  stateBonus: number;
+  recencyBonus: number;
+  assignedToMe: number;
 }
 
 /**
@@ -108,6 +233,8 @@ export interface MatchingConfig {
   llmModel: string;
   /** Minimum confidence threshold (0.0 - 1.0) */
   confidenceThreshold: number;
+  /** Lower bound of the review band (0.0 - 1.0) */
+  reviewThreshold: number;
   /** Weight for keyword search (0.0 - 1.0) */
   keywordWeight: number;
   /** Weight for semantic search (0.0 - 1.0) */
@@ -116,6 +243,8 @@ export interface MatchingConfig {
   enableSemantic: boolean;
   /** Maximum API calls per minute (rate limiting) */
   maxApiCallsPerMinute: number;
+  /** Relative weights of the issue-side scoring signals */
+  signalWeights: ScoringWeights;
 }
 
 /**
@@ -1,3 +1,6 @@
 export * from "./types.js";
+export * from "./store.js";
 export * from "./reader.js";
 export * from "./writer.js";
+export * from "./migrate.js";
+export * from "./retry.js";
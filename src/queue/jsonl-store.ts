@@ -0,0 +1,113 @@
+import { readFileSync, appendFileSync, existsSync, mkdirSync } from "fs";
+import { dirname } from "path";
+import { withFileLock } from "../utils/file-lock.js";
+import { writeFileAtomic } from "../utils/atomic-write.js";
+import { logger } from "../utils/logger.js";
+import type { QueueStore } from "./store.js";
+import type { QueueItem } from "./types.js";
+
+/**
+ * Queue store backed by a JSONL file (one item per line)
+ *
+ * Every operation holds an advisory lock on the file, and rewrites go
+ * through a temp file + rename so a crash never truncates the queue.
+ */
+export class JsonlQueueStore implements QueueStore {
+  readonly backend = "jsonl" as const;
+  private path: string;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  readAll(): QueueItem[] {
+    if (!existsSync(this.path)) {
+      return [];
+    }
+
+    const content = this.withLock(() => readFileSync(this.path, "utf-8"));
+    const lines = content.trim().split("\n").filter(Boolean);
+
+    const items: QueueItem[] = [];
+    for (const line of lines) {
+      try {
+        items.push(JSON.parse(line) as QueueItem);
+      } catch {
+        // A torn append (e.g. power loss mid-write) leaves a partial line
+        logger.warn(`Skipping malformed queue line: ${line.slice(0, 80)}`);
+      }
+    }
+
+    return items;
+  }
+
+  readByStatus(status: QueueItem["status"]): QueueItem[] {
+    return this.readAll().filter((item) => item.status === status);
+  }
+
+  append(item: QueueItem): void {
+    this.withLock(() => {
+      appendFileSync(this.path, JSON.stringify(item) + "\n");
+    });
+  }
+
+  update(id: string, updater: (item: QueueItem) => QueueItem): QueueItem {
+    return this.withLock(() => {
+      const items = this.readAll();
+      const index = items.findIndex((item) => item.id === id);
+
+      if (index === -1) {
+        throw new Error(`Queue item not found: ${id}`);
+      }
+
+      items[index] = updater(items[index]);
+      this.writeAll(items);
+
+      return items[index];
+    });
+  }
+
+  removeWhere(predicate: (item: QueueItem) => boolean): number {
+    return this.withLock(() => {
+      const items = this.readAll();
+      const remaining = items.filter((item) => !predicate(item));
+
+      const removed = items.length - remaining.length;
+      if (removed > 0) {
+        this.writeAll(remaining);
+      }
+
+      return removed;
+    });
+  }
+
+  getWatchPaths(): string[] {
+    return [this.path];
+  }
+
+  close(): void {
+    // Nothing to release
+  }
+
+  /**
+   * Rewrites the whole file; callers must hold the lock
+   */
+  private writeAll(items: QueueItem[]): void {
+    const content =
+      items.length > 0
+        ? items.map((item) => JSON.stringify(item)).join("\n") + "\n"
+        : "";
+    writeFileAtomic(this.path, content);
+  }
+
+  /**
+   * Runs `fn` while holding the queue file lock
+   */
+  private withLock<T>(fn: () => T): T {
+    const dir = dirname(this.path);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+    return withFileLock(this.path, fn);
+  }
+}
@@ -0,0 +1,81 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "fs";
+import { createRequire } from "module";
+import { tmpdir } from "os";
+import { join } from "path";
+
+const hasSqlite = (() => {
+  try {
+    createRequire(import.meta.url)("node:sqlite");
+    return true;
+  } catch {
+    return false;
+  }
+})();
+
+describe("migrateQueue", () => {
+  let home: string;
+  let originalHome: string | undefined;
+  let queue: typeof import("./index.js");
+
+  before(async () => {
+    // Queue files live under the home directory, resolved at import time
+    originalHome = process.env.HOME;
+    home = mkdtempSync(join(tmpdir(), "queue-migrate-"));
+    process.env.HOME = home;
+    queue = await import("./index.js");
+  });
+
+  after(() => {
+    process.env.HOME = originalHome;
+    rmSync(home, { recursive: true, force: true });
+  });
+
+  test("refuses to migrate a backend onto itself", () => {
+    assert.throws(
+      () => queue.migrateQueue("jsonl", "jsonl"),
+      /both jsonl/,
+    );
+  });
+
+  test(
+    "copies items both ways and skips ids already present",
+    { skip: hasSqlite ? undefined : "node:sqlite needs Node.js 22.5+" },
+    () => {
+      const jsonl = queue.createQueueStore("jsonl");
+      for (const id of ["a", "b"]) {
+        jsonl.append({
+          id,
+          type: "pr_created",
+          timestamp: new Date().toISOString(),
+          status: "pending",
+          sessionId: "s",
+          prUrl: `https://github.com/o/r/pull/${id}`,
+          cwd: "/repo",
+        });
+      }
+
+      assert.deepEqual(queue.migrateQueue("jsonl", "sqlite"), {
+        copied: 2,
+        skipped: 0,
+      });
+      assert.deepEqual(queue.migrateQueue("jsonl", "sqlite"), {
+        copied: 0,
+        skipped: 2,
+      });
+
+      const sqlite = queue.createQueueStore("sqlite");
+      try {
+        assert.deepEqual(sqlite.readAll(), jsonl.readAll());
+      } finally {
+        sqlite.close();
+      }
+
+      assert.deepEqual(queue.migrateQueue("sqlite", "jsonl"), {
+        copied: 0,
+        skipped: 2,
+      });
+    },
+  );
+});
@@ -0,0 +1,47 @@
+import { createQueueStore, type QueueBackend } from "./store.js";
+
+/**
+ * Result of a queue migration
+ */
+export interface MigrationResult {
+  copied: number;
+  skipped: number;
+}
+
+/**
+ * Copies every item from one backend to another
+ *
+ * Items already present in the target (by id) are skipped, so the
+ * migration can be re-run safely. The source is left untouched.
+ */
+export function migrateQueue(
+  from: QueueBackend,
+  to: QueueBackend,
+): MigrationResult {
+  if (from === to) {
+    throw new Error(`Source and target backend are both ${from}`);
+  }
+
+  const source = createQueueStore(from);
+  const target = createQueueStore(to);
+
+  try {
+    const existingIds = new Set(target.readAll().map((item) => item.id));
+    let copied = 0;
+    let skipped = 0;
+
+    for (const item of source.readAll()) {
+      if (existingIds.has(item.id)) {
+        skipped++;
+        continue;
+      }
+      target.append(item);
+      copied++;
+    }
+
+    return { copied, skipped };
+  } finally {
+    source.close();
+    target.close();
+  }
+}
@@ -1,51 +1,82 @@
-import { readFileSync, existsSync } from "fs";
-import { join } from "path";
-import { homedir } from "os";
+import { dirname } from "path";
+import { getQueueStore, getQueueFile } from "./store.js";
 import type { QueueItem } from "./types.js";
 
-const QUEUE_DIR = join(homedir(), ".local", "share", "claude-linear-sync");
-const QUEUE_FILE = join(QUEUE_DIR, "queue.jsonl");
-
 /**
- * Read all items from queue file
+ * Read all items from queue
  */
 export function readAllItems(): QueueItem[] {
-  if (!existsSync(QUEUE_FILE)) {
-    return [];
-  }
-
-  const content = readFileSync(QUEUE_FILE, "utf-8");
-  const lines = content.trim().split("\n").filter(Boolean);
-
-  return lines.map((line) => JSON.parse(line) as QueueItem);
+  return getQueueStore().readAll();
 }
 
 /**
  * Read pending items from queue
  */
 export function readPendingItems(): QueueItem[] {
-  return readAllItems().filter((item) => item.status === "pending");
+  return getQueueStore().readByStatus("pending");
 }
 
 /**
- * Read failed items that can be retried
+ * Read failed items whose next attempt is due
  */
-export function readRetryableItems(maxRetries: number = 3): QueueItem[] {
-  return readAllItems().filter(
-    (item) => item.status === "failed" && (item.retryCount ?? 0) < maxRetries
+export function readRetryableItems(
+  maxRetries: number = 3,
+  now: Date = new Date(),
+): QueueItem[] {
+  return readFailedItemsWithRetriesLeft(maxRetries).filter(
+    (item) => !item.nextAttemptAt || new Date(item.nextAttemptAt) <= now,
   );
 }
 
+/**
+ * Read items that exhausted their retries
+ */
+export function readDeadLetterItems(): QueueItem[] {
+  return getQueueStore().readByStatus("dead_letter");
+}
+
+/**
+ * Find a single item by id
+ */
+export function findItem(id: string): QueueItem | null {
+  return getQueueStore().readAll().find((item) => item.id === id) ?? null;
+}
+
+/**
+ * Get the earliest scheduled retry time, if any retries are outstanding
+ */
+export function getNextRetryTime(maxRetries: number = 3): Date | null {
+  let next: Date | null = null;
+
+  for (const item of readFailedItemsWithRetriesLeft(maxRetries)) {
+    const at = item.nextAttemptAt ? new Date(item.nextAttemptAt) : new Date();
+    if (!next || at < next) {
+      next = at;
+    }
+  }
+
+  return next;
+}
+
+/**
+ * Read failed items that have not exhausted their retries
+ */
+function readFailedItemsWithRetriesLeft(maxRetries: number): QueueItem[] {
+  return getQueueStore()
+    .readByStatus("failed")
+    .filter((item) => (item.retryCount ?? 0) < maxRetries);
+}
+
 /**
  * Get queue file path
  */
 export function getQueuePath(): string {
-  return QUEUE_FILE;
+  return getQueueFile();
 }
 
 /**
  * Get queue directory path
  */
 export function getQueueDir(): string {
-  return QUEUE_DIR;
+  return dirname(getQueueFile());
 }
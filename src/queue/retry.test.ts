@@ -0,0 +1,93 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { computeRetryDelay } from "./retry.js";
+
+const POLICY = { baseDelayMs: 1000, maxDelayMs: 10_000, jitter: 0.2 };
+
+// random() = 0.5 gives zero jitter
+const noJitter = () => 0.5;
+
+describe("computeRetryDelay", () => {
+  test("doubles the delay with every attempt", () => {
+    assert.deepEqual(
+      [1, 2, 3, 4].map((attempt) => computeRetryDelay(attempt, POLICY, noJitter)),
+      [1000, 2000, 4000, 8000],
+    );
+  });
+
+  test("caps the delay at maxDelayMs", () => {
+    assert.equal(computeRetryDelay(5, POLICY, noJitter), 10_000);
+    assert.equal(computeRetryDelay(50, POLICY, noJitter), 10_000);
+  });
+
+  test("treats attempts below 1 as the first", () => {
+    assert.equal(computeRetryDelay(0, POLICY, noJitter), 1000);
+  });
+
+  test("spreads the delay by ±jitter", () => {
+    assert.equal(computeRetryDelay(2, POLICY, () => 0), 1600);
+    assert.equal(computeRetryDelay(2, POLICY, () => 1), 2400);
+
+    for (let i = 0; i < 100; i++) {
+      const delay = computeRetryDelay(3, POLICY);
+      assert.ok(delay >= 3200 && delay <= 4800, `${delay} outside 4000±20%`);
+    }
+  });
+
+  test("never returns a negative delay", () => {
+    assert.equal(
+      computeRetryDelay(1, { ...POLICY, jitter: 2 }, () => 0),
+      0,
+    );
+  });
+});
+
+describe("retry scheduling", () => {
+  let home: string;
+  let originalHome: string | undefined;
+  let queue: typeof import("./index.js");
+
+  before(async () => {
+    // The queue file lives under the home directory, resolved at import time
+    originalHome = process.env.HOME;
+    home = mkdtempSync(join(tmpdir(), "queue-retry-"));
+    process.env.HOME = home;
+    queue = await import("./index.js");
+  });
+
+  after(() => {
+    process.env.HOME = originalHome;
+    rmSync(home, { recursive: true, force: true });
+  });
+
+  test("a failed item becomes retryable once nextAttemptAt passes", () => {
+    const item = queue.appendItem({
+      type: "session_stop",
+      sessionId: "s1",
+      transcriptPath: "/tmp/s1.jsonl",
+      cwd: "/repo",
+    });
+    assert.ok(queue.markAsProcessing(item.id));
+    queue.markAsFailed(item.id, "Linear is down", 60_000);
+
+    const failed = queue.findItem(item.id)!;
+    const due = new Date(failed.nextAttemptAt!);
+    assert.equal(failed.status, "failed");
+    assert.equal(failed.retryCount, 1);
+    assert.equal(failed.attempts?.[0].error, "Linear is down");
+
+    assert.deepEqual(queue.readRetryableItems(3, new Date(due.getTime() - 1)), []);
+    assert.deepEqual(
+      queue.readRetryableItems(3, due).map((retryable) => retryable.id),
+      [item.id],
+    );
+    assert.deepEqual(queue.getNextRetryTime(3), due);
+
+    // Out of retries: no longer scheduled
+    assert.deepEqual(queue.readRetryableItems(1, due), []);
+    assert.equal(queue.getNextRetryTime(1), null);
+  });
+});
@@ -0,0 +1,20 @@
+import type { RetryConfig } from "../utils/config.js";
+
+/**
+ * Computes the delay before retry number `attempt` (1-based)
+ *
+ * The delay doubles with every attempt up to `maxDelayMs`, then a random
+ * ±`jitter` spread is applied so that items failing together (e.g. during
+ * a Linear outage) don't all retry at the same instant.
+ */
+export function computeRetryDelay(
+  attempt: number,
+  policy: RetryConfig,
+  random: () => number = Math.random,
+): number {
+  const exponential = policy.baseDelayMs * 2 ** Math.max(0, attempt - 1);
+  const capped = Math.min(policy.maxDelayMs, exponential);
+  const spread = capped * policy.jitter * (random() * 2 - 1);
+
+  return Math.max(0, Math.round(capped + spread));
+}
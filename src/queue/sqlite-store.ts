@@ -0,0 +1,155 @@
+import { existsSync, mkdirSync } from "fs";
+import { dirname } from "path";
+import { createRequire } from "module";
+import type { DatabaseSync } from "node:sqlite";
+import type { QueueStore } from "./store.js";
+import type { QueueItem } from "./types.js";
+
+const require = createRequire(import.meta.url);
+
+/**
+ * Loads node:sqlite lazily so the JSONL backend keeps working on Node
+ * versions that don't ship it
+ */
+function openDatabase(path: string): DatabaseSync {
+  let sqlite: typeof import("node:sqlite");
+  try {
+    sqlite = require("node:sqlite");
+  } catch {
+    throw new Error(
+      "SQLite queue backend requires Node.js 22.5+ (node:sqlite). " +
+        "Use queue.backend: jsonl or upgrade Node.js.",
+    );
+  }
+
+  return new sqlite.DatabaseSync(path);
+}
+
+interface QueueRow {
+  data: string;
+}
+
+/**
+ * Queue store backed by an embedded SQLite database
+ *
+ * Items are stored as JSON with their status and type pulled out into
+ * indexed columns, and status updates run inside a write transaction.
+ */
+export class SqliteQueueStore implements QueueStore {
+  readonly backend = "sqlite" as const;
+  private path: string;
+  private db: DatabaseSync;
+
+  constructor(path: string) {
+    this.path = path;
+
+    const dir = dirname(path);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+
+    this.db = openDatabase(path);
+    this.db.exec(`
+      PRAGMA journal_mode = WAL;
+      PRAGMA busy_timeout = 5000;
+      CREATE TABLE IF NOT EXISTS queue_items (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        id TEXT NOT NULL UNIQUE,
+        type TEXT NOT NULL,
+        status TEXT NOT NULL,
+        timestamp TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_queue_items_status ON queue_items (status);
+      CREATE INDEX IF NOT EXISTS idx_queue_items_type ON queue_items (type);
+    `);
+  }
+
+  readAll(): QueueItem[] {
+    const rows = this.db
+      .prepare("SELECT data FROM queue_items ORDER BY seq")
+      .all() as unknown as QueueRow[];
+    return rows.map((row) => JSON.parse(row.data) as QueueItem);
+  }
+
+  readByStatus(status: QueueItem["status"]): QueueItem[] {
+    const rows = this.db
+      .prepare("SELECT data FROM queue_items WHERE status = ? ORDER BY seq")
+      .all(status) as unknown as QueueRow[];
+    return rows.map((row) => JSON.parse(row.data) as QueueItem);
+  }
+
+  append(item: QueueItem): void {
+    this.db
+      .prepare(
+        "INSERT INTO queue_items (id, type, status, timestamp, data) VALUES (?, ?, ?, ?, ?)",
+      )
+      .run(item.id, item.type, item.status, item.timestamp, JSON.stringify(item));
+  }
+
+  update(id: string, updater: (item: QueueItem) => QueueItem): QueueItem {
+    return this.transaction(() => {
+      const row = this.db
+        .prepare("SELECT data FROM queue_items WHERE id = ?")
+        .get(id) as unknown as QueueRow | undefined;
+
+      if (!row) {
+        throw new Error(`Queue item not found: ${id}`);
+      }
+
+      const updated = updater(JSON.parse(row.data) as QueueItem);
+      this.db
+        .prepare(
+          "UPDATE queue_items SET type = ?, status = ?, timestamp = ?, data = ? WHERE id = ?",
+        )
+        .run(
+          updated.type,
+          updated.status,
+          updated.timestamp,
+          JSON.stringify(updated),
+          id,
+        );
+
+      return updated;
+    });
+  }
+
+  removeWhere(predicate: (item: QueueItem) => boolean): number {
+    return this.transaction(() => {
+      const ids = this.readAll()
+        .filter(predicate)
+        .map((item) => item.id);
+
+      const statement = this.db.prepare("DELETE FROM queue_items WHERE id = ?");
+      for (const id of ids) {
+        statement.run(id);
+      }
+
+      return ids.length;
+    });
+  }
+
+  getWatchPaths(): string[] {
+    // In WAL mode writes land in the -wal file first
+    return [this.path, `${this.path}-wal`];
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Runs `fn` inside an immediate (write-locking) transaction
+   */
+  private transaction<T>(fn: () => T): T {
+    this.db.exec("BEGIN IMMEDIATE");
+    try {
+      const result = fn();
+      this.db.exec("COMMIT");
+      return result;
+    } catch (error) {
+      this.db.exec("ROLLBACK");
+      throw error;
+    }
+  }
+}
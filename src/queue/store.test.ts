@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { appendFileSync, mkdtempSync, rmSync } from "fs";
+import { createRequire } from "module";
+import { tmpdir } from "os";
+import { join } from "path";
+import { JsonlQueueStore } from "./jsonl-store.js";
+import { SqliteQueueStore } from "./sqlite-store.js";
+import type { QueueStore } from "./store.js";
+import type { QueueItem } from "./types.js";
+
+const hasSqlite = (() => {
+  try {
+    createRequire(import.meta.url)("node:sqlite");
+    return true;
+  } catch {
+    return false;
+  }
+})();
+
+const BACKENDS: {
+  name: string;
+  file: string;
+  open: (path: string) => QueueStore;
+  skip?: string;
+}[] = [
+  { name: "JsonlQueueStore", file: "queue.jsonl", open: (path) => new JsonlQueueStore(path) },
+  {
+    name: "SqliteQueueStore",
+    file: "queue.db",
+    open: (path) => new SqliteQueueStore(path),
+    skip: hasSqlite ? undefined : "node:sqlite needs Node.js 22.5+",
+  },
+];
+
+function sessionItem(id: string, status: QueueItem["status"] = "pending"): QueueItem {
+  return {
+    id,
+    type: "session_stop",
+    timestamp: new Date(Date.UTC(2026, 0, 1)).toISOString(),
+    status,
+    sessionId: `session-${id}`,
+    transcriptPath: `/tmp/${id}.jsonl`,
+    cwd: "/repo",
+  };
+}
+
+for (const backend of BACKENDS) {
+  describe(backend.name, { skip: backend.skip }, () => {
+    let dir: string;
+    let store: QueueStore;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), "queue-store-"));
+      store = backend.open(join(dir, "nested", backend.file));
+    });
+
+    afterEach(() => {
+      store.close();
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    test("starts empty and keeps insertion order", () => {
+      assert.deepEqual(store.readAll(), []);
+
+      store.append(sessionItem("b"));
+      store.append(sessionItem("a"));
+      store.append(sessionItem("c"));
+
+      assert.deepEqual(
+        store.readAll().map((item) => item.id),
+        ["b", "a", "c"],
+      );
+    });
+
+    test("filters by status", () => {
+      store.append(sessionItem("a"));
+      store.append(sessionItem("b", "processed"));
+      store.append(sessionItem("c"));
+
+      assert.deepEqual(
+        store.readByStatus("pending").map((item) => item.id),
+        ["a", "c"],
+      );
+    });
+
+    test("updates an item in place and returns it", () => {
+      store.append(sessionItem("a"));
+      store.append(sessionItem("b"));
+
+      const updated = store.update("a", (item) => ({
+        ...item,
+        status: "failed",
+        error: "boom",
+        retryCount: 1,
+      }));
+
+      assert.equal(updated.status, "failed");
+      assert.deepEqual(store.readAll()[0], updated);
+      assert.deepEqual(
+        store.readAll().map((item) => item.id),
+        ["a", "b"],
+      );
+      assert.deepEqual(store.readByStatus("failed").map((item) => item.id), ["a"]);
+    });
+
+    test("throws when updating an unknown item", () => {
+      assert.throws(
+        () => store.update("missing", (item) => item),
+        /Queue item not found: missing/,
+      );
+    });
+
+    test("removes matching items and reports the count", () => {
+      store.append(sessionItem("a", "processed"));
+      store.append(sessionItem("b"));
+      store.append(sessionItem("c", "processed"));
+
+      assert.equal(store.removeWhere((item) => item.status === "processed"), 2);
+      assert.equal(store.removeWhere(() => false), 0);
+      assert.deepEqual(
+        store.readAll().map((item) => item.id),
+        ["b"],
+      );
+    });
+  });
+}
+
+describe("JsonlQueueStore recovery", () => {
+  test("skips a torn trailing line", () => {
+    const dir = mkdtempSync(join(tmpdir(), "queue-store-"));
+    const path = join(dir, "queue.jsonl");
+    try {
+      const store = new JsonlQueueStore(path);
+      store.append(sessionItem("a"));
+      appendFileSync(path, '{"id":"b","type":"sess');
+
+      assert.deepEqual(
+        store.readAll().map((item) => item.id),
+        ["a"],
+      );
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,80 @@
+import { join } from "path";
+import { DATA_DIR, readQueueBackend } from "../utils/config.js";
+import { JsonlQueueStore } from "./jsonl-store.js";
+import { SqliteQueueStore } from "./sqlite-store.js";
+import type { QueueItem } from "./types.js";
+
+/**
+ * Available queue storage backends
+ */
+export type QueueBackend = "jsonl" | "sqlite";
+
+/**
+ * Storage abstraction behind the queue reader/writer functions
+ *
+ * Implementations must be safe to use from several processes at once
+ * (daemon, CLI and hooks all open the same store).
+ */
+export interface QueueStore {
+  readonly backend: QueueBackend;
+
+  /** All items in insertion order */
+  readAll(): QueueItem[];
+
+  /** Items with the given status, in insertion order */
+  readByStatus(status: QueueItem["status"]): QueueItem[];
+
+  /** Appends a new item */
+  append(item: QueueItem): void;
+
+  /**
+   * Atomically replaces an item with the result of `updater`
+   * @throws if no item has the given id
+   */
+  update(id: string, updater: (item: QueueItem) => QueueItem): QueueItem;
+
+  /** Removes every item matching `predicate`, returning the count */
+  removeWhere(predicate: (item: QueueItem) => boolean): number;
+
+  /** Files whose modification signals a queue change */
+  getWatchPaths(): string[];
+
+  /** Releases any underlying handles */
+  close(): void;
+}
+
+const QUEUE_FILES: Record<QueueBackend, string> = {
+  jsonl: join(DATA_DIR, "queue.jsonl"),
+  sqlite: join(DATA_DIR, "queue.db"),
+};
+
+let activeStore: QueueStore | null = null;
+
+/**
+ * Opens a store for the given backend
+ */
+export function createQueueStore(backend: QueueBackend): QueueStore {
+  switch (backend) {
+    case "sqlite":
+      return new SqliteQueueStore(QUEUE_FILES.sqlite);
+    case "jsonl":
+      return new JsonlQueueStore(QUEUE_FILES.jsonl);
+  }
+}
+
+/**
+ * Gets the store for the configured backend (opened once per process)
+ */
+export function getQueueStore(): QueueStore {
+  if (!activeStore) {
+    activeStore = createQueueStore(readQueueBackend());
+  }
+  return activeStore;
+}
+
+/**
+ * Gets the queue file path for a backend (defaults to the configured one)
+ */
+export function getQueueFile(backend?: QueueBackend): string {
+  return QUEUE_FILES[backend ?? getQueueStore().backend];
+}
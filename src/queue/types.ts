@@ -2,13 +2,34 @@
  * Queue item types for daemon processing
  */
 
+/**
+ * One processing attempt of a queue item
+ */
+export interface QueueAttempt {
+  startedAt: string;
+  finishedAt?: string;
+  error?: string;
+}
+
 export interface BaseQueueItem {
   id: string;
   type: string;
   timestamp: string;
-  status: "pending" | "processing" | "processed" | "failed";
+  status: "pending" | "processing" | "processed" | "failed" | "dead_letter";
   error?: string;
   retryCount?: number;
+  /** When the last attempt started */
+  lastAttemptAt?: string;
+  /** Earliest time a failed item may be retried */
+  nextAttemptAt?: string;
+  /** History of processing attempts, oldest first */
+  attempts?: QueueAttempt[];
+  /** When the item exhausted its retries */
+  deadLetteredAt?: string;
+  /** PID of the process holding the processing lease */
+  leaseOwner?: number;
+  /** When the processing lease lapses unless renewed */
+  leaseExpiresAt?: string;
 }
 
 export interface SessionStopItem extends BaseQueueItem {
@@ -16,6 +37,8 @@ export interface SessionStopItem extends BaseQueueItem {
   sessionId: string;
   transcriptPath: string;
   cwd: string;
+  /** Id of the item whose sync already covered this one */
+  coalescedInto?: string;
 }
 
 export interface PrCreatedItem extends BaseQueueItem {
@@ -27,6 +50,14 @@ export interface PrCreatedItem extends BaseQueueItem {
 
 export type QueueItem = SessionStopItem | PrCreatedItem;
 
+/**
+ * Fields supplied by the producer of a new queue item
+ * (id, timestamp and status are filled in on append)
+ */
+export type NewQueueItem =
+  | Omit<SessionStopItem, Exclude<keyof BaseQueueItem, "type">>
+  | Omit<PrCreatedItem, Exclude<keyof BaseQueueItem, "type">>;
+
 export function isSessionStopItem(item: QueueItem): item is SessionStopItem {
   return item.type === "session_stop";
 }
@@ -0,0 +1,107 @@
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+describe("dead-letter queue", () => {
+  let home: string;
+  let originalHome: string | undefined;
+  let queue: typeof import("./index.js");
+
+  before(async () => {
+    // The queue file lives under the home directory, resolved at import time
+    originalHome = process.env.HOME;
+    home = mkdtempSync(join(tmpdir(), "queue-dead-letter-"));
+    process.env.HOME = home;
+    queue = await import("./index.js");
+  });
+
+  beforeEach(() => {
+    queue.getQueueStore().removeWhere(() => true);
+  });
+
+  after(() => {
+    process.env.HOME = originalHome;
+    rmSync(home, { recursive: true, force: true });
+  });
+
+  function failingItem(): string {
+    const item = queue.appendItem({
+      type: "session_stop",
+      sessionId: "s1",
+      transcriptPath: "/tmp/s1.jsonl",
+      cwd: "/repo",
+    });
+    assert.ok(queue.markAsProcessing(item.id));
+    return item.id;
+  }
+
+  test("dead-letters an item on its final failure and keeps its history", () => {
+    const id = failingItem();
+    queue.markAsFailed(id, "first", 0);
+    assert.ok(queue.markAsProcessing(id));
+    queue.markAsDeadLetter(id, "second");
+
+    const item = queue.findItem(id)!;
+    assert.equal(item.status, "dead_letter");
+    assert.equal(item.retryCount, 2);
+    assert.equal(item.leaseOwner, undefined);
+    assert.ok(item.deadLetteredAt);
+    assert.deepEqual(
+      item.attempts?.map((attempt) => attempt.error),
+      ["first", "second"],
+    );
+    assert.deepEqual(
+      queue.readDeadLetterItems().map((dead) => dead.id),
+      [id],
+    );
+    assert.deepEqual(queue.readRetryableItems(5), []);
+  });
+
+  test("requeues with a fresh retry budget", () => {
+    const id = failingItem();
+    queue.markAsDeadLetter(id, "boom");
+    queue.requeueDeadLetterItem(id);
+
+    const item = queue.findItem(id)!;
+    assert.equal(item.status, "pending");
+    assert.equal(item.retryCount, 0);
+    assert.equal(item.deadLetteredAt, undefined);
+    assert.equal(item.attempts?.length, 1);
+    assert.throws(() => queue.requeueDeadLetterItem(id), /not dead-lettered/);
+  });
+
+  test("dead-letters failed items that already used up their retries", () => {
+    const exhausted = failingItem();
+    queue.markAsFailed(exhausted, "boom", 0);
+    const retryable = queue.appendItem({
+      type: "session_stop",
+      sessionId: "s2",
+      transcriptPath: "/tmp/s2.jsonl",
+      cwd: "/repo",
+    }).id;
+
+    assert.equal(queue.deadLetterExhaustedItems(1), 1);
+    assert.equal(queue.findItem(exhausted)!.status, "dead_letter");
+    assert.equal(queue.findItem(retryable)!.status, "pending");
+  });
+
+  test("purges only dead-lettered items older than the cutoff", () => {
+    const id = failingItem();
+    queue.markAsDeadLetter(id, "boom");
+    const pending = queue.appendItem({
+      type: "session_stop",
+      sessionId: "s2",
+      transcriptPath: "/tmp/s2.jsonl",
+      cwd: "/repo",
+    }).id;
+
+    assert.equal(queue.purgeDeadLetterItems(1), 0);
+    assert.equal(queue.purgeDeadLetterItems(), 1);
+    assert.deepEqual(
+      queue.readAllItems().map((item) => item.id),
+      [pending],
+    );
+  });
+});
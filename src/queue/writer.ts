@@ -1,24 +1,28 @@
-import { writeFileSync, mkdirSync, existsSync } from "fs";
-import { readAllItems, getQueuePath, getQueueDir } from "./reader.js";
-import type { QueueItem } from "./types.js";
+import { randomUUID } from "crypto";
+import { getQueueStore } from "./store.js";
+import { isProcessAlive } from "../utils/file-lock.js";
+import type { QueueItem, QueueAttempt, NewQueueItem } from "./types.js";
 
-/**
- * Ensure queue directory exists
- */
-function ensureQueueDir(): void {
-  const dir = getQueueDir();
-  if (!existsSync(dir)) {
-    mkdirSync(dir, { recursive: true });
-  }
-}
+const DEFAULT_LEASE_MS = 5 * 60_000;
+
+// Spread into an item to drop its processing lease
+const RELEASED_LEASE = { leaseOwner: undefined, leaseExpiresAt: undefined };
 
 /**
- * Write all items to queue file
+ * Append a new pending item to the queue
+ *
+ * Only appends a single record, so it is cheap enough to call from hooks.
  */
-function writeAllItems(items: QueueItem[]): void {
-  ensureQueueDir();
-  const content = items.map((item) => JSON.stringify(item)).join("\n") + "\n";
-  writeFileSync(getQueuePath(), content);
+export function appendItem(fields: NewQueueItem): QueueItem {
+  const item = {
+    id: randomUUID(),
+    ...fields,
+    timestamp: new Date().toISOString(),
+    status: "pending",
+  } as QueueItem;
+
+  getQueueStore().append(item);
+  return item;
 }
 
 /**
@@ -29,70 +33,298 @@ export function updateItemStatus(
   status: QueueItem["status"],
   error?: string
 ): void {
-  const items = readAllItems();
-  const index = items.findIndex((item) => item.id === id);
-
-  if (index === -1) {
-    throw new Error(`Queue item not found: ${id}`);
-  }
-
-  items[index] = {
-    ...items[index],
+  getQueueStore().update(id, (item) => ({
+    ...item,
     status,
     error,
     retryCount:
-      status === "failed"
-        ? (items[index].retryCount ?? 0) + 1
-        : items[index].retryCount,
-  };
+      status === "failed" ? (item.retryCount ?? 0) + 1 : item.retryCount,
+  }));
+}
 
-  writeAllItems(items);
+/**
+ * Claim item for processing under a lease and open a new attempt
+ * @returns false if the item was completed meanwhile or another live
+ *   process holds its lease
+ */
+export function markAsProcessing(
+  id: string,
+  leaseMs: number = DEFAULT_LEASE_MS,
+): boolean {
+  const now = new Date();
+  let claimed = false;
+
+  getQueueStore().update(id, (item) => {
+    if (!isClaimable(item, now)) {
+      return item;
+    }
+
+    claimed = true;
+    return {
+      ...item,
+      status: "processing",
+      lastAttemptAt: now.toISOString(),
+      nextAttemptAt: undefined,
+      leaseOwner: process.pid,
+      leaseExpiresAt: new Date(now.getTime() + leaseMs).toISOString(),
+      attempts: [...(item.attempts ?? []), { startedAt: now.toISOString() }],
+    };
+  });
+
+  return claimed;
 }
 
 /**
- * Mark item as processing
+ * Extend the lease on an item this process is working on
  */
-export function markAsProcessing(id: string): void {
-  updateItemStatus(id, "processing");
+export function renewLease(id: string, leaseMs: number = DEFAULT_LEASE_MS): void {
+  getQueueStore().update(id, (item) => {
+    if (item.status !== "processing" || item.leaseOwner !== process.pid) {
+      return item;
+    }
+    return {
+      ...item,
+      leaseExpiresAt: new Date(Date.now() + leaseMs).toISOString(),
+    };
+  });
+}
+
+/**
+ * Return items whose processing lease lapsed to pending
+ *
+ * A lease is lost when it expired or its owner process no longer exists
+ * (e.g. the daemon was killed mid-item).
+ */
+export function reclaimExpiredLeases(now: Date = new Date()): QueueItem[] {
+  const store = getQueueStore();
+  const reclaimed: QueueItem[] = [];
+
+  for (const item of store.readByStatus("processing")) {
+    if (!isLeaseLost(item, now)) {
+      continue;
+    }
+
+    const reason = item.leaseOwner
+      ? `Lease lost by process ${item.leaseOwner}`
+      : "Lease lost (no owner recorded)";
+
+    reclaimed.push(
+      store.update(item.id, (current) =>
+        current.status === "processing" && isLeaseLost(current, now)
+          ? {
+              ...current,
+              status: "pending",
+              ...RELEASED_LEASE,
+              attempts: finishLastAttempt(current.attempts, reason),
+            }
+          : current,
+      ),
+    );
+  }
+
+  return reclaimed;
+}
+
+/**
+ * Checks whether an item may be picked up for processing
+ */
+function isClaimable(item: QueueItem, now: Date): boolean {
+  if (item.status === "pending" || item.status === "failed") {
+    return true;
+  }
+  return item.status === "processing" && isLeaseLost(item, now);
+}
+
+/**
+ * Checks whether a processing item's lease can be taken over
+ */
+function isLeaseLost(item: QueueItem, now: Date): boolean {
+  if (!item.leaseExpiresAt || new Date(item.leaseExpiresAt) <= now) {
+    return true;
+  }
+  return item.leaseOwner !== undefined && !isProcessAlive(item.leaseOwner);
 }
 
 /**
  * Mark item as processed
  */
 export function markAsProcessed(id: string): void {
-  updateItemStatus(id, "processed");
+  getQueueStore().update(id, (item) => ({
+    ...item,
+    status: "processed",
+    error: undefined,
+    ...RELEASED_LEASE,
+    attempts: finishLastAttempt(item.attempts),
+  }));
 }
 
 /**
- * Mark item as failed
+ * Mark item as failed and schedule the next attempt
+ * @param retryDelayMs Delay before the item becomes retryable again
  */
-export function markAsFailed(id: string, error: string): void {
-  updateItemStatus(id, "failed", error);
+export function markAsFailed(
+  id: string,
+  error: string,
+  retryDelayMs: number = 0,
+): void {
+  getQueueStore().update(id, (item) => ({
+    ...item,
+    status: "failed",
+    error,
+    ...RELEASED_LEASE,
+    retryCount: (item.retryCount ?? 0) + 1,
+    nextAttemptAt: new Date(Date.now() + retryDelayMs).toISOString(),
+    attempts: finishLastAttempt(item.attempts, error),
+  }));
+}
+
+/**
+ * Mark a waiting session_stop item as covered by another item's sync
+ */
+export function markAsCoalesced(id: string, intoId: string): boolean {
+  let coalesced = false;
+
+  getQueueStore().update(id, (item) => {
+    if (item.type !== "session_stop") {
+      return item;
+    }
+    if (item.status !== "pending" && item.status !== "failed") {
+      return item;
+    }
+
+    coalesced = true;
+    return {
+      ...item,
+      status: "processed",
+      error: undefined,
+      nextAttemptAt: undefined,
+      coalescedInto: intoId,
+    };
+  });
+
+  return coalesced;
+}
+
+/**
+ * Move item to the dead-letter state after its final failed attempt
+ */
+export function markAsDeadLetter(id: string, error: string): void {
+  const now = new Date().toISOString();
+
+  getQueueStore().update(id, (item) => ({
+    ...item,
+    status: "dead_letter",
+    error,
+    ...RELEASED_LEASE,
+    retryCount: (item.retryCount ?? 0) + 1,
+    nextAttemptAt: undefined,
+    deadLetteredAt: now,
+    attempts: finishLastAttempt(item.attempts, error),
+  }));
+}
+
+/**
+ * Dead-letter failed items that already used up their retries
+ *
+ * Covers items that failed before the dead-letter state existed or
+ * whose retry limit was lowered in config.
+ */
+export function deadLetterExhaustedItems(maxRetries: number): number {
+  const now = new Date().toISOString();
+  let moved = 0;
+
+  const store = getQueueStore();
+  for (const item of store.readByStatus("failed")) {
+    if ((item.retryCount ?? 0) < maxRetries) {
+      continue;
+    }
+    store.update(item.id, (current) => ({
+      ...current,
+      status: "dead_letter",
+      nextAttemptAt: undefined,
+      deadLetteredAt: now,
+    }));
+    moved++;
+  }
+
+  return moved;
+}
+
+/**
+ * Put a dead-lettered item back in the queue with a fresh retry budget
+ *
+ * The attempt history is kept so the earlier errors remain visible.
+ */
+export function requeueDeadLetterItem(id: string): void {
+  getQueueStore().update(id, (item) => {
+    if (item.status !== "dead_letter") {
+      throw new Error(`Queue item is not dead-lettered: ${id}`);
+    }
+    return {
+      ...item,
+      status: "pending",
+      error: undefined,
+      retryCount: 0,
+      nextAttemptAt: undefined,
+      deadLetteredAt: undefined,
+    };
+  });
+}
+
+/**
+ * Remove dead-lettered items, optionally only those older than N hours
+ */
+export function purgeDeadLetterItems(hoursOld?: number): number {
+  const cutoff =
+    hoursOld !== undefined ? Date.now() - hoursOld * 60 * 60 * 1000 : Infinity;
+
+  return getQueueStore().removeWhere(
+    (item) =>
+      item.status === "dead_letter" &&
+      new Date(item.deadLetteredAt ?? item.timestamp).getTime() <= cutoff,
+  );
 }
 
 /**
  * Reset item to pending (for retry)
  */
 export function resetToPending(id: string): void {
-  updateItemStatus(id, "pending");
+  getQueueStore().update(id, (item) => ({
+    ...item,
+    status: "pending",
+    error: undefined,
+    nextAttemptAt: undefined,
+    ...RELEASED_LEASE,
+  }));
+}
+
+/**
+ * Closes the most recent attempt, recording its error if any
+ */
+function finishLastAttempt(
+  attempts: QueueAttempt[] | undefined,
+  error?: string,
+): QueueAttempt[] | undefined {
+  if (!attempts || attempts.length === 0) {
+    return attempts;
+  }
+
+  const last = attempts[attempts.length - 1];
+  return [
+    ...attempts.slice(0, -1),
+    { ...last, finishedAt: new Date().toISOString(), error },
+  ];
 }
 
 /**
  * Remove processed items older than specified hours
  */
 export function cleanupOldItems(hoursOld: number = 24): number {
-  const items = readAllItems();
   const cutoff = Date.now() - hoursOld * 60 * 60 * 1000;
 
-  const remaining = items.filter((item) => {
-    if (item.status !== "processed") return true;
-    return new Date(item.timestamp).getTime() > cutoff;
-  });
-
-  const removed = items.length - remaining.length;
-  if (removed > 0) {
-    writeAllItems(remaining);
-  }
-
-  return removed;
+  return getQueueStore().removeWhere(
+    (item) =>
+      item.status === "processed" &&
+      new Date(item.timestamp).getTime() <= cutoff,
+  );
 }
@@ -0,0 +1,6 @@
+export * from "./session-store.js";
+export * from "./links.js";
+export * from "./review-store.js";
+export * from "./issue-index.js";
+export * from "./llm-cache.js";
+export * from "./llm-usage.js";
@@ -0,0 +1,117 @@
+import { existsSync, statSync } from "fs";
+import { join } from "path";
+import type {
+  LinearClient,
+  LinearIssue,
+  LinearUser,
+} from "../linear/client.js";
+import { DATA_DIR } from "../utils/config.js";
+import { readJsonFile, updateJsonFile } from "./json-file.js";
+
+const ISSUE_INDEX_FILE = join(DATA_DIR, "issue-index.json");
+
+// Issues fetched per request while syncing
+const SYNC_PAGE_SIZE = 100;
+
+/**
+ * Local copy of Linear issues used for offline candidate retrieval
+ */
+export interface IssueIndex {
+  /** Newest `updatedAt` seen; the next sync fetches issues updated after it */
+  cursorUpdatedAt?: string;
+  lastSyncedAt?: string;
+  /** API key's user, for the "assigned to me" signal */
+  viewer?: LinearUser;
+  issues: Record<string, LinearIssue>;
+}
+
+/**
+ * Outcome of a sync
+ */
+export interface IssueIndexSyncResult {
+  fetched: number;
+  total: number;
+}
+
+/**
+ * Read the issue index
+ */
+export function readIssueIndex(): IssueIndex {
+  return readJsonFile(ISSUE_INDEX_FILE, emptyIssueIndex);
+}
+
+/**
+ * Modification time of the index file (0 if it doesn't exist)
+ */
+export function getIssueIndexMtime(): number {
+  return existsSync(ISSUE_INDEX_FILE) ? statSync(ISSUE_INDEX_FILE).mtimeMs : 0;
+}
+
+export function getIssueIndexPath(): string {
+  return ISSUE_INDEX_FILE;
+}
+
+/**
+ * Fetch issues updated since the last sync (or all of them with `full`)
+ * and merge them into the index
+ *
+ * The cursor only advances once every page has been fetched, so an
+ * interrupted sync is simply repeated next time.
+ */
+export async function syncIssueIndex(
+  linearClient: LinearClient,
+  options: { full?: boolean } = {},
+): Promise<IssueIndexSyncResult> {
+  const updatedAfter = options.full
+    ? undefined
+    : readIssueIndex().cursorUpdatedAt;
+
+  const fetched: LinearIssue[] = [];
+  let after: string | undefined;
+
+  for (;;) {
+    const page = await linearClient.listIssues({
+      updatedAfter,
+      after,
+      first: SYNC_PAGE_SIZE,
+    });
+    if (!page) {
+      throw new Error("Failed to fetch issues from Linear");
+    }
+
+    fetched.push(...page.issues);
+    if (!page.hasNextPage || !page.endCursor) {
+      break;
+    }
+    after = page.endCursor;
+  }
+
+  const viewer = await linearClient.getViewer();
+
+  return updateJsonFile(ISSUE_INDEX_FILE, emptyIssueIndex, (index) => {
+    if (options.full) {
+      index.issues = {};
+    }
+
+    for (const issue of fetched) {
+      index.issues[issue.identifier] = issue;
+      if (
+        issue.updatedAt &&
+        (!index.cursorUpdatedAt || issue.updatedAt > index.cursorUpdatedAt)
+      ) {
+        index.cursorUpdatedAt = issue.updatedAt;
+      }
+    }
+
+    if (viewer) {
+      index.viewer = viewer;
+    }
+    index.lastSyncedAt = new Date().toISOString();
+
+    return { fetched: fetched.length, total: Object.keys(index.issues).length };
+  });
+}
+
+function emptyIssueIndex(): IssueIndex {
+  return { issues: {} };
+}
@@ -0,0 +1,44 @@
+import { existsSync, mkdirSync, readFileSync } from "fs";
+import { dirname } from "path";
+import { withFileLock } from "../utils/file-lock.js";
+import { writeFileAtomic } from "../utils/atomic-write.js";
+
+/**
+ * Read a JSON state file, returning `fallback` if it doesn't exist yet
+ */
+export function readJsonFile<T>(path: string, fallback: () => T): T {
+  if (!existsSync(path)) {
+    return fallback();
+  }
+
+  const content = withJsonFileLock(path, () => readFileSync(path, "utf-8"));
+  return JSON.parse(content) as T;
+}
+
+/**
+ * Read-modify-write a JSON state file under its lock
+ */
+export function updateJsonFile<T, R>(
+  path: string,
+  fallback: () => T,
+  updater: (data: T) => R,
+): R {
+  return withJsonFileLock(path, () => {
+    const data = readJsonFile(path, fallback);
+    const result = updater(data);
+
+    writeFileAtomic(path, JSON.stringify(data, null, 2) + "\n");
+    return result;
+  });
+}
+
+/**
+ * Run `fn` while holding the lock for a state file
+ */
+function withJsonFileLock<T>(path: string, fn: () => T): T {
+  const dir = dirname(path);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+  return withFileLock(path, fn);
+}
@@ -0,0 +1,217 @@
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { LinearClient } from "../linear/client.js";
+
+describe("session links", () => {
+  let home: string;
+  let originalHome: string | undefined;
+  let state: typeof import("./index.js");
+  let sessionId: string;
+  let counter = 0;
+
+  before(async () => {
+    // The session state file lives under the home directory, resolved at import time
+    originalHome = process.env.HOME;
+    home = mkdtempSync(join(tmpdir(), "state-links-"));
+    process.env.HOME = home;
+    state = await import("./index.js");
+  });
+
+  beforeEach(() => {
+    sessionId = `session-${++counter}`;
+  });
+
+  after(() => {
+    process.env.HOME = originalHome;
+    rmSync(home, { recursive: true, force: true });
+  });
+
+  test("resolves a transcript path to its session ID", () => {
+    assert.deepEqual(state.resolveSessionTarget("/tmp/abc-123.jsonl"), {
+      sessionId: "abc-123",
+      transcriptPath: "/tmp/abc-123.jsonl",
+    });
+
+    const existing = join(home, "def-456");
+    writeFileSync(existing, "");
+    assert.deepEqual(state.resolveSessionTarget(existing), {
+      sessionId: "def-456",
+      transcriptPath: existing,
+    });
+
+    assert.deepEqual(state.resolveSessionTarget("ghi-789"), {
+      sessionId: "ghi-789",
+    });
+  });
+
+  test("links a new session manually", () => {
+    const linked = state.linkSessionToIssue(sessionId, "ENG-1", "/tmp/s.jsonl");
+
+    assert.equal(linked.issueIdentifier, "ENG-1");
+    assert.equal(linked.resolvedBy, "manual");
+    assert.equal(linked.transcriptPath, "/tmp/s.jsonl");
+    assert.deepEqual(state.getSessionState(sessionId), linked);
+  });
+
+  test("relinking keeps the sync history and transcript path", () => {
+    state.updateSessionState(sessionId, (current) => ({
+      ...current,
+      transcriptPath: "/tmp/original.jsonl",
+      issueIdentifier: "ENG-1",
+      resolvedBy: "fuzzy",
+      commentIds: ["c1"],
+      syncedLineCount: 10,
+      syncCount: 2,
+    }));
+
+    const linked = state.linkSessionToIssue(sessionId, "ENG-2");
+
+    assert.equal(linked.issueIdentifier, "ENG-2");
+    assert.equal(linked.resolvedBy, "manual");
+    assert.equal(linked.transcriptPath, "/tmp/original.jsonl");
+    assert.deepEqual(linked.commentIds, ["c1"]);
+    assert.equal(linked.syncedLineCount, 10);
+    assert.equal(linked.syncCount, 2);
+  });
+
+  test("unlinking clears the issue but keeps the comment history", () => {
+    state.linkSessionToIssue(sessionId, "ENG-1");
+    state.updateSessionState(sessionId, (current) => ({
+      ...current,
+      commentIds: ["c1", "c2"],
+    }));
+
+    const unlinked = state.unlinkSession(sessionId);
+
+    assert.ok(unlinked);
+    assert.equal(unlinked.issueIdentifier, undefined);
+    assert.equal(unlinked.resolvedBy, undefined);
+    assert.deepEqual(unlinked.commentIds, ["c1", "c2"]);
+  });
+
+  test("unlinking a session without a link is a no-op", () => {
+    assert.equal(state.unlinkSession(sessionId), null);
+    assert.equal(state.getSessionState(sessionId), null);
+
+    state.linkSessionToIssue(sessionId, "ENG-1");
+    state.unlinkSession(sessionId);
+    assert.equal(state.unlinkSession(sessionId), null);
+  });
+
+  test("moves comments to the new issue and records the new IDs", async () => {
+    state.linkSessionToIssue(sessionId, "ENG-2");
+    state.updateSessionState(sessionId, (current) => ({
+      ...current,
+      commentIds: ["old-1", "already-there", "missing", "old-2"],
+    }));
+    const linear = new FakeLinearClient({
+      "old-1": { issueIdentifier: "ENG-1", body: "first" },
+      "already-there": { issueIdentifier: "ENG-2", body: "second" },
+      "old-2": { issueIdentifier: "ENG-1", body: "third" },
+    });
+
+    const result = await state.moveSessionComments(
+      linear.asClient(),
+      sessionId,
+      "ENG-2",
+    );
+
+    assert.deepEqual(result, { moved: 2, failed: 1 });
+    assert.deepEqual(linear.added, [
+      ["ENG-2", "first"],
+      ["ENG-2", "third"],
+    ]);
+    assert.deepEqual(linear.deleted, ["old-1", "old-2"]);
+    assert.deepEqual(state.getSessionState(sessionId)?.commentIds, [
+      "new-1",
+      "already-there",
+      "new-2",
+    ]);
+  });
+
+  test("keeps a comment that could not be copied", async () => {
+    state.updateSessionState(sessionId, (current) => ({
+      ...current,
+      commentIds: ["old-1"],
+    }));
+    const linear = new FakeLinearClient({
+      "old-1": { issueIdentifier: "ENG-1", body: "first" },
+    });
+    linear.failAdds = true;
+
+    const result = await state.moveSessionComments(
+      linear.asClient(),
+      sessionId,
+      "ENG-2",
+    );
+
+    assert.deepEqual(result, { moved: 0, failed: 1 });
+    assert.deepEqual(linear.deleted, []);
+    assert.deepEqual(state.getSessionState(sessionId)?.commentIds, ["old-1"]);
+  });
+
+  test("keeps a comment whose lookup failed", async () => {
+    state.updateSessionState(sessionId, (current) => ({
+      ...current,
+      commentIds: ["old-1", "old-2"],
+    }));
+    const linear = new FakeLinearClient({
+      "old-2": { issueIdentifier: "ENG-1", body: "second" },
+    });
+    linear.failLookups = ["old-1"];
+
+    const result = await state.moveSessionComments(
+      linear.asClient(),
+      sessionId,
+      "ENG-2",
+    );
+
+    assert.deepEqual(result, { moved: 1, failed: 1 });
+    assert.deepEqual(state.getSessionState(sessionId)?.commentIds, [
+      "old-1",
+      "new-1",
+    ]);
+  });
+});
+
+/**
+ * In-memory stand-in for the comment methods of `LinearClient`
+ */
+class FakeLinearClient {
+  added: [string, string][] = [];
+  deleted: string[] = [];
+  failAdds = false;
+  failLookups: string[] = [];
+
+  constructor(
+    private comments: Record<string, { issueIdentifier: string; body: string }>,
+  ) {}
+
+  asClient(): LinearClient {
+    return this as unknown as LinearClient;
+  }
+
+  async getComment(id: string) {
+    if (this.failLookups.includes(id)) {
+      throw new Error("Linear API error: 503 Service Unavailable");
+    }
+    const comment = this.comments[id];
+    return comment ? { id, ...comment } : null;
+  }
+
+  async addComment(issueIdentifier: string, body: string) {
+    if (this.failAdds) {
+      return null;
+    }
+    this.added.push([issueIdentifier, body]);
+    return `new-${this.added.length}`;
+  }
+
+  async deleteComment(id: string) {
+    this.deleted.push(id);
+    return true;
+  }
+}
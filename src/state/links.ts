@@ -0,0 +1,126 @@
+import { existsSync } from "fs";
+import { basename } from "path";
+import type { LinearClient, LinearComment } from "../linear/client.js";
+import { logger } from "../utils/logger.js";
+import {
+  getSessionState,
+  updateSessionState,
+  type SessionState,
+} from "./session-store.js";
+
+/**
+ * Result of moving a session's comments to another issue
+ */
+export interface MoveCommentsResult {
+  moved: number;
+  failed: number;
+}
+
+/**
+ * Resolve a session ID from either a session ID or a transcript path
+ */
+export function resolveSessionTarget(target: string): {
+  sessionId: string;
+  transcriptPath?: string;
+} {
+  if (target.endsWith(".jsonl") || existsSync(target)) {
+    return { sessionId: basename(target, ".jsonl"), transcriptPath: target };
+  }
+  return { sessionId: target };
+}
+
+/**
+ * Manually link a session to an issue
+ *
+ * Manual links take precedence over branch and fuzzy matching for every
+ * later sync of the session.
+ */
+export function linkSessionToIssue(
+  sessionId: string,
+  issueIdentifier: string,
+  transcriptPath?: string,
+): SessionState {
+  return updateSessionState(sessionId, (current) => ({
+    ...current,
+    transcriptPath: transcriptPath ?? current.transcriptPath,
+    issueIdentifier,
+    resolvedBy: "manual",
+  }));
+}
+
+/**
+ * Remove a session's issue link so the next sync matches again
+ *
+ * The comment history is kept so the comments can still be moved later.
+ */
+export function unlinkSession(sessionId: string): SessionState | null {
+  if (!getSessionState(sessionId)?.issueIdentifier) {
+    return null;
+  }
+
+  return updateSessionState(sessionId, (current) => ({
+    ...current,
+    issueIdentifier: undefined,
+    resolvedBy: undefined,
+  }));
+}
+
+/**
+ * Re-post a session's comments on another issue and delete the originals
+ */
+export async function moveSessionComments(
+  linearClient: LinearClient,
+  sessionId: string,
+  issueIdentifier: string,
+): Promise<MoveCommentsResult> {
+  const state = getSessionState(sessionId);
+  const result: MoveCommentsResult = { moved: 0, failed: 0 };
+
+  if (!state || state.commentIds.length === 0) {
+    return result;
+  }
+
+  const commentIds: string[] = [];
+
+  for (const commentId of state.commentIds) {
+    let comment: LinearComment | null;
+    try {
+      comment = await linearClient.getComment(commentId);
+    } catch (error) {
+      logger.warn(`Failed to fetch comment ${commentId}: ${error}`);
+      commentIds.push(commentId);
+      result.failed++;
+      continue;
+    }
+
+    if (!comment) {
+      logger.warn(`Comment ${commentId} not found, dropping it from history`);
+      result.failed++;
+      continue;
+    }
+
+    if (comment.issueIdentifier === issueIdentifier) {
+      commentIds.push(commentId);
+      continue;
+    }
+
+    const newId = await linearClient.addComment(issueIdentifier, comment.body);
+    if (!newId) {
+      logger.warn(`Failed to copy comment ${commentId} to ${issueIdentifier}`);
+      commentIds.push(commentId);
+      result.failed++;
+      continue;
+    }
+
+    commentIds.push(newId);
+    if (!(await linearClient.deleteComment(commentId))) {
+      logger.warn(
+        `Copied comment ${commentId} but could not delete it from ${comment.issueIdentifier}`,
+      );
+    }
+    result.moved++;
+  }
+
+  updateSessionState(sessionId, (current) => ({ ...current, commentIds }));
+  return result;
+}
@@ -0,0 +1,117 @@
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  mkdtempSync,
+  readdirSync,
+  rmSync,
+  statSync,
+  utimesSync,
+} from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+describe("LLM response cache", () => {
+  let home: string;
+  let originalHome: string | undefined;
+  let state: typeof import("./index.js");
+  let entriesDir: string;
+
+  const limits = { ttlMs: 60_000, maxEntries: 100, maxBytes: 1024 * 1024 };
+  const entry = (response: string) => ({ response, provider: "test" });
+
+  before(async () => {
+    // The cache lives under the home directory, resolved at import time
+    originalHome = process.env.HOME;
+    home = mkdtempSync(join(tmpdir(), "llm-cache-"));
+    process.env.HOME = home;
+    state = await import("./index.js");
+    const { DATA_DIR } = await import("../utils/config.js");
+    entriesDir = join(DATA_DIR, "llm-cache", "entries");
+  });
+
+  beforeEach(() => {
+    state.clearLLMCache();
+  });
+
+  after(() => {
+    process.env.HOME = originalHome;
+    rmSync(home, { recursive: true, force: true });
+  });
+
+  function age(key: string, ms: number): void {
+    const then = new Date(Date.now() - ms);
+    utimesSync(join(entriesDir, `${key}.json`), then, then);
+  }
+
+  test("stores each response in its own file", () => {
+    state.saveCachedLLMResponse("a", entry("first"), limits);
+    state.saveCachedLLMResponse("b", entry("second"), limits);
+
+    assert.deepEqual(readdirSync(entriesDir).sort(), ["a.json", "b.json"]);
+    assert.equal(
+      state.getCachedLLMResponse("a", limits.ttlMs)?.response,
+      "first",
+    );
+    assert.equal(state.getCachedLLMResponse("missing", limits.ttlMs), null);
+  });
+
+  test("leaves entries untouched on reads and counts hits and misses", () => {
+    state.saveCachedLLMResponse("a", entry("first"), limits);
+    const before = statSync(join(entriesDir, "a.json")).mtimeMs;
+    age("a", 10_000);
+
+    state.getCachedLLMResponse("a", limits.ttlMs);
+    state.getCachedLLMResponse("a", limits.ttlMs);
+    state.getCachedLLMResponse("b", limits.ttlMs);
+
+    assert.ok(statSync(join(entriesDir, "a.json")).mtimeMs < before);
+    const stats = state.readLLMCacheStats(limits.ttlMs);
+    assert.equal(stats.hits, 2);
+    assert.equal(stats.misses, 1);
+  });
+
+  test("misses an expired entry and drops it on the next write", () => {
+    state.saveCachedLLMResponse("old", entry("stale"), limits);
+
+    assert.equal(state.getCachedLLMResponse("old", -1), null);
+
+    age("old", limits.ttlMs + 1000);
+    assert.equal(state.readLLMCacheStats(limits.ttlMs).expired, 1);
+    state.saveCachedLLMResponse("new", entry("fresh"), limits);
+    assert.deepEqual(readdirSync(entriesDir), ["new.json"]);
+  });
+
+  test("evicts the oldest entries beyond maxEntries", () => {
+    for (const [index, key] of ["a", "b", "c"].entries()) {
+      state.saveCachedLLMResponse(key, entry(key), limits);
+      age(key, (3 - index) * 1000);
+    }
+
+    state.saveCachedLLMResponse("d", entry("d"), { ...limits, maxEntries: 2 });
+
+    assert.deepEqual(readdirSync(entriesDir).sort(), ["c.json", "d.json"]);
+  });
+
+  test("evicts the oldest entries beyond maxBytes", () => {
+    state.saveCachedLLMResponse("a", entry("x".repeat(400)), limits);
+    age("a", 1000);
+
+    state.saveCachedLLMResponse("b", entry("y".repeat(400)), {
+      ...limits,
+      maxBytes: 600,
+    });
+
+    assert.deepEqual(readdirSync(entriesDir), ["b.json"]);
+  });
+
+  test("clear removes every entry and the counters", () => {
+    state.saveCachedLLMResponse("a", entry("first"), limits);
+    state.getCachedLLMResponse("a", limits.ttlMs);
+
+    assert.equal(state.clearLLMCache(), 1);
+
+    const stats = state.readLLMCacheStats(limits.ttlMs);
+    assert.equal(stats.entries, 0);
+    assert.equal(stats.hits, 0);
+  });
+});
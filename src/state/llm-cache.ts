@@ -0,0 +1,209 @@
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  statSync,
+} from "fs";
+import { join } from "path";
+import { writeFileAtomic } from "../utils/atomic-write.js";
+import { DATA_DIR } from "../utils/config.js";
+import { readJsonFile, updateJsonFile } from "./json-file.js";
+
+const LLM_CACHE_DIR = join(DATA_DIR, "llm-cache");
+const LLM_CACHE_ENTRIES_DIR = join(LLM_CACHE_DIR, "entries");
+const LLM_CACHE_STATS_FILE = join(LLM_CACHE_DIR, "stats.json");
+
+/**
+ * Cached LLM response (the prompt itself is not stored, only its hash)
+ */
+export interface LLMCacheEntry {
+  response: string;
+  provider: string;
+  model?: string;
+  createdAt: string;
+}
+
+/**
+ * How long entries live and how much the cache may hold
+ */
+export interface LLMCacheLimits {
+  ttlMs: number;
+  maxEntries: number;
+  /** Total size of the entry files in bytes */
+  maxBytes: number;
+}
+
+export interface LLMCacheStats {
+  path: string;
+  entries: number;
+  expired: number;
+  /** Size of the entry files on disk */
+  bytes: number;
+  hits: number;
+  misses: number;
+  oldestAt?: string;
+  newestAt?: string;
+}
+
+/**
+ * Lookups since the last clear
+ */
+interface LLMCacheCounters {
+  hits: number;
+  misses: number;
+}
+
+interface EntryFile {
+  path: string;
+  size: number;
+  /** Entries are written once, so this is when they were cached */
+  mtimeMs: number;
+}
+
+/**
+ * Get a live cache entry, counting the lookup as a hit or a miss
+ *
+ * Entries live in one file each and are never rewritten on a read; only
+ * the small counters file is updated.
+ */
+export function getCachedLLMResponse(
+  key: string,
+  ttlMs: number,
+): LLMCacheEntry | null {
+  const entry = readEntry(key);
+  const live =
+    entry && !isExpired(Date.parse(entry.createdAt), ttlMs, Date.now())
+      ? entry
+      : null;
+
+  updateJsonFile(LLM_CACHE_STATS_FILE, emptyCounters, (counters) => {
+    if (live) {
+      counters.hits++;
+    } else {
+      counters.misses++;
+    }
+  });
+  return live;
+}
+
+/**
+ * Store a response, then drop expired entries and evict the oldest ones
+ * until the cache fits its limits
+ */
+export function saveCachedLLMResponse(
+  key: string,
+  entry: Omit<LLMCacheEntry, "createdAt">,
+  limits: LLMCacheLimits,
+): void {
+  mkdirSync(LLM_CACHE_ENTRIES_DIR, { recursive: true });
+  writeFileAtomic(
+    entryPath(key),
+    JSON.stringify({ ...entry, createdAt: new Date().toISOString() }) + "\n",
+  );
+
+  const now = Date.now();
+  const live = listEntryFiles()
+    .filter((file) => {
+      if (isExpired(file.mtimeMs, limits.ttlMs, now)) {
+        rmSync(file.path, { force: true });
+        return false;
+      }
+      return true;
+    })
+    .sort((a, b) => b.mtimeMs - a.mtimeMs);
+
+  let bytes = 0;
+  live.forEach((file, index) => {
+    bytes += file.size;
+    if (index >= limits.maxEntries || bytes > limits.maxBytes) {
+      rmSync(file.path, { force: true });
+    }
+  });
+}
+
+/**
+ * Summarize the cache for `cache stats`
+ */
+export function readLLMCacheStats(ttlMs: number): LLMCacheStats {
+  const files = listEntryFiles();
+  const counters = readJsonFile(LLM_CACHE_STATS_FILE, emptyCounters);
+  const created = files.map((file) => file.mtimeMs).sort((a, b) => a - b);
+  const now = Date.now();
+
+  return {
+    path: LLM_CACHE_DIR,
+    entries: files.length,
+    expired: files.filter((file) => isExpired(file.mtimeMs, ttlMs, now)).length,
+    bytes: files.reduce((sum, file) => sum + file.size, 0),
+    hits: counters.hits,
+    misses: counters.misses,
+    oldestAt: toIsoString(created[0]),
+    newestAt: toIsoString(created[created.length - 1]),
+  };
+}
+
+/**
+ * Remove every cached response and reset the hit counters
+ *
+ * @returns Number of entries removed
+ */
+export function clearLLMCache(): number {
+  const files = listEntryFiles();
+  for (const file of files) {
+    rmSync(file.path, { force: true });
+  }
+
+  updateJsonFile(LLM_CACHE_STATS_FILE, emptyCounters, (counters) => {
+    counters.hits = 0;
+    counters.misses = 0;
+  });
+  return files.length;
+}
+
+function readEntry(key: string): LLMCacheEntry | null {
+  try {
+    return JSON.parse(readFileSync(entryPath(key), "utf-8")) as LLMCacheEntry;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+function listEntryFiles(): EntryFile[] {
+  if (!existsSync(LLM_CACHE_ENTRIES_DIR)) {
+    return [];
+  }
+
+  return readdirSync(LLM_CACHE_ENTRIES_DIR)
+    .filter((name) => name.endsWith(".json"))
+    .flatMap((name) => {
+      const path = join(LLM_CACHE_ENTRIES_DIR, name);
+      try {
+        const { size, mtimeMs } = statSync(path);
+        return [{ path, size, mtimeMs }];
+      } catch {
+        // Evicted by another process since the listing
+        return [];
+      }
+    });
+}
+
+function entryPath(key: string): string {
+  return join(LLM_CACHE_ENTRIES_DIR, `${key}.json`);
+}
+
+function isExpired(createdAtMs: number, ttlMs: number, now: number): boolean {
+  return now - createdAtMs > ttlMs;
+}
+
+function toIsoString(ms: number | undefined): string | undefined {
+  return ms === undefined ? undefined : new Date(ms).toISOString();
+}
+
+function emptyCounters(): LLMCacheCounters {
+  return { hits: 0, misses: 0 };
+}
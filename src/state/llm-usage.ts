@@ -0,0 +1,122 @@
+import { join } from "path";
+import { DATA_DIR } from "../utils/config.js";
+import { readJsonFile, updateJsonFile } from "./json-file.js";
+
+const LLM_USAGE_FILE = join(DATA_DIR, "llm-usage.json");
+
+// Older days are dropped when a call is recorded
+const USAGE_RETENTION_DAYS = 30;
+
+/**
+ * What an LLM call was made for (`test` is the `llm test` command)
+ */
+export type LLMPurpose = "summarize" | "match" | "test";
+
+/**
+ * How an LLM call ended: answered by the model, answered from the cache,
+ * failed, or skipped because the daily budget was used up
+ */
+export type LLMCallOutcome = "ok" | "cached" | "error" | "over_budget";
+
+/**
+ * One LLM call (the prompt and response themselves are not stored)
+ */
+export interface LLMUsageRecord {
+  at: string;
+  purpose: LLMPurpose;
+  provider: string;
+  model?: string;
+  outcome: LLMCallOutcome;
+  durationMs: number;
+  promptChars: number;
+  responseChars: number;
+  /** Rough token count of prompt + response (~4 characters per token) */
+  estimatedTokens: number;
+  error?: string;
+}
+
+/**
+ * Calls that reached the model on one day, for budget checks
+ */
+export interface DailyLLMUsage {
+  calls: number;
+  estimatedTokens: number;
+}
+
+interface LLMUsageFile {
+  /** Local date (YYYY-MM-DD) → calls made that day */
+  days: Record<string, LLMUsageRecord[]>;
+}
+
+/**
+ * Record an LLM call under the local date it was made
+ */
+export function recordLLMUsage(record: LLMUsageRecord): void {
+  updateJsonFile(LLM_USAGE_FILE, emptyUsageFile, (file) => {
+    const day = toLocalDate(new Date(record.at));
+    file.days[day] = [...(file.days[day] ?? []), record];
+
+    const oldest = toLocalDate(daysAgo(USAGE_RETENTION_DAYS - 1));
+    for (const recorded of Object.keys(file.days)) {
+      if (recorded < oldest) {
+        delete file.days[recorded];
+      }
+    }
+  });
+}
+
+/**
+ * Get the recorded calls of the last `days` days (today included),
+ * oldest day first
+ */
+export function readLLMUsage(days: number): [string, LLMUsageRecord[]][] {
+  const file = readJsonFile(LLM_USAGE_FILE, emptyUsageFile);
+  const oldest = toLocalDate(daysAgo(days - 1));
+
+  return Object.entries(file.days)
+    .filter(([day]) => day >= oldest)
+    .sort(([a], [b]) => a.localeCompare(b));
+}
+
+/**
+ * Sum today's calls that reached the model (cache hits and skipped calls
+ * are free)
+ */
+export function getDailyLLMUsage(date: Date = new Date()): DailyLLMUsage {
+  const records =
+    readJsonFile(LLM_USAGE_FILE, emptyUsageFile).days[toLocalDate(date)] ?? [];
+  const billed = records.filter(
+    (record) => record.outcome === "ok" || record.outcome === "error",
+  );
+
+  return {
+    calls: billed.length,
+    estimatedTokens: billed.reduce(
+      (sum, record) => sum + record.estimatedTokens,
+      0,
+    ),
+  };
+}
+
+/**
+ * Rough token count for a text (~4 characters per token)
+ */
+export function estimateTokens(chars: number): number {
+  return Math.ceil(chars / 4);
+}
+
+function toLocalDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function daysAgo(days: number): Date {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return date;
+}
+
+function emptyUsageFile(): LLMUsageFile {
+  return { days: {} };
+}
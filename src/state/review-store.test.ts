@@ -0,0 +1,94 @@
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { PendingReview } from "./review-store.js";
+
+describe("review store", () => {
+  let home: string;
+  let originalHome: string | undefined;
+  let reviews: typeof import("./review-store.js");
+  let sessionId: string;
+  let counter = 0;
+
+  before(async () => {
+    // The reviews file lives under the home directory, resolved at import time
+    originalHome = process.env.HOME;
+    home = mkdtempSync(join(tmpdir(), "review-store-"));
+    process.env.HOME = home;
+    reviews = await import("./review-store.js");
+  });
+
+  beforeEach(() => {
+    for (const review of reviews.readPendingReviews()) {
+      reviews.removePendingReview(review.sessionId);
+    }
+    sessionId = `session-${++counter}`;
+  });
+
+  after(() => {
+    process.env.HOME = originalHome;
+    rmSync(home, { recursive: true, force: true });
+  });
+
+  function park(
+    id: string,
+    reason: PendingReview["reason"] = "uncertain",
+  ): PendingReview {
+    return reviews.savePendingReview({
+      sessionId: id,
+      transcriptPath: `/tmp/${id}.jsonl`,
+      cwd: "/repo",
+      reason,
+      candidates: [
+        {
+          identifier: "ENG-1",
+          title: "Fix login",
+          url: "https://linear.app/acme/issue/ENG-1",
+          stateName: "In Progress",
+          confidence: 0.55,
+        },
+      ],
+    });
+  }
+
+  test("keeps the original parking time when a session is parked again", async () => {
+    const first = park(sessionId);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const second = park(sessionId, "ambiguous");
+
+    assert.equal(second.createdAt, first.createdAt);
+    assert.notEqual(second.updatedAt, first.updatedAt);
+    assert.deepEqual(reviews.getPendingReview(sessionId), second);
+  });
+
+  test("lists reviews oldest first", async () => {
+    park("earlier-session");
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    park(sessionId);
+    // Re-parking doesn't move a session to the back
+    park("earlier-session");
+
+    assert.deepEqual(
+      reviews.readPendingReviews().map((review) => review.sessionId),
+      ["earlier-session", sessionId],
+    );
+  });
+
+  test("records a request to create an issue", () => {
+    assert.equal(reviews.requestIssueCreation(sessionId), false);
+
+    park(sessionId);
+    assert.equal(reviews.requestIssueCreation(sessionId), true);
+    assert.equal(reviews.getPendingReview(sessionId)?.decision, "create");
+  });
+
+  test("removes a review", () => {
+    park(sessionId);
+
+    assert.equal(reviews.removePendingReview(sessionId), true);
+    assert.equal(reviews.getPendingReview(sessionId), null);
+    assert.equal(reviews.removePendingReview(sessionId), false);
+  });
+});
@@ -0,0 +1,113 @@
+import { join } from "path";
+import { DATA_DIR } from "../utils/config.js";
+import { readJsonFile, updateJsonFile } from "./json-file.js";
+
+const REVIEWS_FILE = join(DATA_DIR, "reviews.json");
+
+/**
+ * Candidate issue shown for review, with its scoring breakdown
+ */
+export interface ReviewCandidate {
+  identifier: string;
+  title: string;
+  url: string;
+  stateName: string;
+  confidence: number;
+  keywordScore?: number;
+  semanticScore?: number;
+  matchedKeywords?: string[];
+  reasoning?: string;
+}
+
+/**
+ * Session parked until a human picks its issue
+ */
+export interface PendingReview {
+  sessionId: string;
+  transcriptPath: string;
+  cwd: string;
+  /**
+   * Why the match needs a human decision: the best candidate scored below
+   * the accept threshold, or another candidate scored almost as high
+   */
+  reason: "uncertain" | "ambiguous";
+  /** Best candidates first */
+  candidates: ReviewCandidate[];
+  /** Set when the reviewer asked for a new issue; consumed by the daemon */
+  decision?: "create";
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface ReviewFile {
+  reviews: Record<string, PendingReview>;
+}
+
+/**
+ * Get the pending review for a session
+ */
+export function getPendingReview(sessionId: string): PendingReview | null {
+  return readJsonFile(REVIEWS_FILE, emptyReviewFile).reviews[sessionId] ?? null;
+}
+
+/**
+ * Get all pending reviews, oldest first
+ */
+export function readPendingReviews(): PendingReview[] {
+  return Object.values(readJsonFile(REVIEWS_FILE, emptyReviewFile).reviews).sort(
+    (a, b) => a.createdAt.localeCompare(b.createdAt),
+  );
+}
+
+/**
+ * Park a session for review (replacing candidates of an earlier review)
+ */
+export function savePendingReview(
+  review: Omit<PendingReview, "createdAt" | "updatedAt">,
+): PendingReview {
+  return updateJsonFile(REVIEWS_FILE, emptyReviewFile, (file) => {
+    const now = new Date().toISOString();
+    const saved: PendingReview = {
+      ...review,
+      createdAt: file.reviews[review.sessionId]?.createdAt ?? now,
+      updatedAt: now,
+    };
+
+    file.reviews[review.sessionId] = saved;
+    return saved;
+  });
+}
+
+/**
+ * Record the reviewer's request to create a new issue for the session
+ */
+export function requestIssueCreation(sessionId: string): boolean {
+  return updateJsonFile(REVIEWS_FILE, emptyReviewFile, (file) => {
+    const review = file.reviews[sessionId];
+    if (!review) {
+      return false;
+    }
+
+    file.reviews[sessionId] = {
+      ...review,
+      decision: "create",
+      updatedAt: new Date().toISOString(),
+    };
+    return true;
+  });
+}
+
+/**
+ * Remove a session's pending review
+ */
+export function removePendingReview(sessionId: string): boolean {
+  return updateJsonFile(REVIEWS_FILE, emptyReviewFile, (file) => {
+    const existed = sessionId in file.reviews;
+    delete file.reviews[sessionId];
+    return existed;
+  });
+}
+
+function emptyReviewFile(): ReviewFile {
+  return { reviews: {} };
+}
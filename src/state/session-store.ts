@@ -0,0 +1,96 @@
+import { join } from "path";
+import { DATA_DIR } from "../utils/config.js";
+import { readJsonFile, updateJsonFile } from "./json-file.js";
+
+const SESSIONS_FILE = join(DATA_DIR, "sessions.json");
+
+/**
+ * How a session's Linear issue was determined
+ */
+export type IssueResolutionMethod =
+  | "manual"
+  | "branch"
+  | "attachment"
+  | "fuzzy"
+  | "created";
+
+/**
+ * What has been synced to Linear for a single Claude Code session
+ */
+export interface SessionState {
+  sessionId: string;
+  transcriptPath: string;
+  /** Linear issue identifier the session is linked to (e.g. ENG-123) */
+  issueIdentifier?: string;
+  /** How `issueIdentifier` was resolved */
+  resolvedBy?: IssueResolutionMethod;
+  /** Working directory of the session */
+  cwd?: string;
+  /** Files the session's tools touched, as of the last sync */
+  filePaths?: string[];
+  /** IDs of the Linear comments posted for this session */
+  commentIds: string[];
+  /** Number of complete transcript lines already synced */
+  syncedLineCount: number;
+  /** Number of syncs posted for this session */
+  syncCount: number;
+  lastSyncedAt?: string;
+}
+
+interface SessionStateFile {
+  sessions: Record<string, SessionState>;
+}
+
+/**
+ * Get the sync state for a session
+ */
+export function getSessionState(sessionId: string): SessionState | null {
+  return readStateFile().sessions[sessionId] ?? null;
+}
+
+/**
+ * Get the sync state of every known session
+ */
+export function readAllSessionStates(): SessionState[] {
+  return Object.values(readStateFile().sessions);
+}
+
+/**
+ * Atomically update a session's state, creating it if needed
+ */
+export function updateSessionState(
+  sessionId: string,
+  updater: (state: SessionState) => SessionState,
+): SessionState {
+  return updateJsonFile(SESSIONS_FILE, emptyStateFile, (file) => {
+    const current = file.sessions[sessionId] ?? {
+      sessionId,
+      transcriptPath: "",
+      commentIds: [],
+      syncedLineCount: 0,
+      syncCount: 0,
+    };
+    const updated = updater({ ...current, commentIds: current.commentIds ?? [] });
+
+    file.sessions[sessionId] = updated;
+    return updated;
+  });
+}
+
+/**
+ * Get the session state file path
+ */
+export function getSessionStatePath(): string {
+  return SESSIONS_FILE;
+}
+
+/**
+ * Read and parse the state file
+ */
+function readStateFile(): SessionStateFile {
+  return readJsonFile(SESSIONS_FILE, emptyStateFile);
+}
+
+function emptyStateFile(): SessionStateFile {
+  return { sessions: {} };
+}
@@ -37,6 +37,14 @@ interface ContentBlock {
 
 export type LogEntry = UserLogEntry | AssistantLogEntry;
 
+/**
+ * Log entry together with its 0-based line number in the transcript
+ */
+export interface NumberedLogEntry {
+  line: number;
+  entry: LogEntry;
+}
+
 /**
  * Noise patterns to filter out
  */
@@ -61,19 +69,63 @@ export async function parseTranscript(path: string): Promise<LogEntry[]> {
   const entries: LogEntry[] = [];
 
   for (const line of lines) {
-    try {
-      const entry = JSON.parse(line) as LogEntry;
-      if (entry.type === "user" || entry.type === "assistant") {
-        entries.push(entry);
-      }
-    } catch {
-      // Skip invalid JSON lines
+    const entry = parseLogLine(line);
+    if (entry) {
+      entries.push(entry);
     }
   }
 
   return entries;
 }
 
+/**
+ * Parse transcript JSONL file, keeping line numbers
+ *
+ * Only newline-terminated lines are counted, so a line that is still
+ * being written is left for the next read.
+ */
+export async function parseTranscriptLines(
+  path: string,
+): Promise<{ entries: NumberedLogEntry[]; lineCount: number }> {
+  if (!existsSync(path)) {
+    return { entries: [], lineCount: 0 };
+  }
+
+  const content = readFileSync(path, "utf-8");
+  const complete = content.slice(0, content.lastIndexOf("\n") + 1);
+  const lines = complete.split("\n").slice(0, -1);
+
+  const entries: NumberedLogEntry[] = [];
+  lines.forEach((line, index) => {
+    const entry = parseLogLine(line);
+    if (entry) {
+      entries.push({ line: index, entry });
+    }
+  });
+
+  return { entries, lineCount: lines.length };
+}
+
+/**
+ * Parse a single transcript line, keeping only user/assistant entries
+ */
+function parseLogLine(line: string): LogEntry | null {
+  if (!line.trim()) {
+    return null;
+  }
+
+  try {
+    const entry = JSON.parse(line) as LogEntry;
+    if (entry.type === "user" || entry.type === "assistant") {
+      return entry;
+    }
+  } catch {
+    // Skip invalid JSON lines
+  }
+
+  return null;
+}
+
 /**
  * Filter out noise entries
  */
@@ -100,6 +152,26 @@ function getEntryContent(entry: LogEntry): string {
     .join("\n");
 }
 
+/**
+ * Get file paths passed to tools (Read, Edit, Write, ...)
+ */
+function getToolFilePaths(entry: AssistantLogEntry): string[] {
+  const paths: string[] = [];
+
+  for (const block of entry.message.content) {
+    if (block.type !== "tool_use" || !block.input) {
+      continue;
+    }
+    for (const key of ["file_path", "path", "filePath", "file"]) {
+      if (typeof block.input[key] === "string") {
+        paths.push(block.input[key] as string);
+      }
+    }
+  }
+
+  return paths;
+}
+
 /**
  * Extract user and assistant messages
  */
@@ -107,9 +179,11 @@ export function extractContent(entries: LogEntry[]): {
   userMessages: string[];
   assistantMessages: string[];
   gitBranch?: string;
+  filePaths: string[];
 } {
   const userMessages: string[] = [];
   const assistantMessages: string[] = [];
+  const filePaths = new Set<string>();
   let gitBranch: string | undefined;
 
   for (const entry of entries) {
@@ -123,10 +197,18 @@ export function extractContent(entries: LogEntry[]): {
       if (content) {
         assistantMessages.push(content);
       }
+      for (const filePath of getToolFilePaths(entry)) {
+        filePaths.add(filePath);
+      }
     }
   }
 
-  return { userMessages, assistantMessages, gitBranch };
+  return {
+    userMessages,
+    assistantMessages,
+    gitBranch,
+    filePaths: Array.from(filePaths),
+  };
 }
 
 /**
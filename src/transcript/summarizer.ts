@@ -1,14 +1,15 @@
-import { LLMClient } from "../llm/client.js";
-
-const llmClient = new LLMClient();
+import type { LLMClient } from "../llm/client.js";
 
 /**
  * Summarize session content using Claude
  */
-export async function summarizeSession(content: {
-  userMessages: string[];
-  assistantMessages: string[];
-}): Promise<string> {
+export async function summarizeSession(
+  content: {
+    userMessages: string[];
+    assistantMessages: string[];
+  },
+  llmClient: LLMClient,
+): Promise<string> {
   // 短いセッションはそのまま返す
   if (content.userMessages.length <= 2) {
     return content.userMessages.join("\n");
@@ -17,10 +18,10 @@ export async function summarizeSession(content: {
   const prompt = buildSummarizationPrompt(content);
 
   try {
-    const response = await llmClient.complete(prompt);
+    const response = await llmClient.complete(prompt, "summarize");
     return response.trim();
   } catch (error) {
-    // LLM失敗時はユーザーメッセージを結合
+    // LLM失敗時・日次予算超過時はユーザーメッセージを結合
     return content.userMessages.slice(0, 5).join("\n");
   }
 }
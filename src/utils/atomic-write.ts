@@ -0,0 +1,30 @@
+import { openSync, writeSync, fsyncSync, closeSync, renameSync, unlinkSync } from "fs";
+
+/**
+ * Replaces a file's contents atomically
+ *
+ * Writes to a temp file in the same directory, fsyncs it, then renames it
+ * over the target, so readers see either the old or the new file and a
+ * crash never leaves a truncated one behind.
+ */
+export function writeFileAtomic(path: string, content: string): void {
+  const tempPath = `${path}.${process.pid}.tmp`;
+
+  try {
+    const fd = openSync(tempPath, "w");
+    try {
+      writeSync(fd, content);
+      fsyncSync(fd);
+    } finally {
+      closeSync(fd);
+    }
+    renameSync(tempPath, path);
+  } catch (error) {
+    try {
+      unlinkSync(tempPath);
+    } catch {
+      // Temp file was never created
+    }
+    throw error;
+  }
+}
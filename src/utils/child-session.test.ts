@@ -0,0 +1,65 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { dirname, join } from "path";
+
+describe("isChildSession", () => {
+  let home: string;
+  let originalHome: string | undefined;
+  let childSession: typeof import("./child-session.js");
+
+  before(async () => {
+    // The daemon's working directory is resolved from the home directory at
+    // import time
+    originalHome = process.env.HOME;
+    home = mkdtempSync(join(tmpdir(), "child-session-"));
+    process.env.HOME = home;
+    childSession = await import("./child-session.js");
+  });
+
+  after(() => {
+    process.env.HOME = originalHome;
+    rmSync(home, { recursive: true, force: true });
+  });
+
+  test("recognizes the environment marker of spawned sessions", () => {
+    const { cwd, env } = childSession.childSessionSpawnOptions();
+
+    assert.equal(cwd, childSession.CHILD_SESSION_CWD);
+    assert.equal(childSession.isChildSession("/repo", env), true);
+    assert.equal(childSession.isChildSession("/repo", {}), false);
+    assert.equal(
+      childSession.isChildSession("/repo", {
+        [childSession.CHILD_SESSION_ENV]: "0",
+      }),
+      false,
+    );
+  });
+
+  test("recognizes the daemon's working directory however it is written", () => {
+    const cwd = childSession.CHILD_SESSION_CWD;
+    const originalCwd = process.cwd();
+
+    assert.equal(childSession.isChildSession(cwd), true);
+    assert.equal(childSession.isChildSession(`${cwd}/`), true);
+    assert.equal(childSession.isChildSession(`${cwd}/../llm`), true);
+
+    childSession.childSessionSpawnOptions();
+    process.chdir(dirname(cwd));
+    try {
+      assert.equal(childSession.isChildSession("llm"), true);
+    } finally {
+      process.chdir(originalCwd);
+    }
+  });
+
+  test("ignores other directories", () => {
+    const cwd = childSession.CHILD_SESSION_CWD;
+
+    assert.equal(childSession.isChildSession(undefined), false);
+    assert.equal(childSession.isChildSession(""), false);
+    assert.equal(childSession.isChildSession(`${cwd}/project`), false);
+    assert.equal(childSession.isChildSession(dirname(cwd)), false);
+  });
+});
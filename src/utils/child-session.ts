@@ -0,0 +1,47 @@
+import { mkdirSync } from "fs";
+import { join, resolve } from "path";
+import { DATA_DIR } from "./config.js";
+
+/**
+ * Environment variable set on every `claude -p` the daemon spawns; the
+ * hooks of those sessions inherit it
+ */
+export const CHILD_SESSION_ENV = "CLAUDE_LINEAR_SYNC_CHILD";
+
+/**
+ * Working directory of the daemon's `claude -p` calls, recorded as the `cwd`
+ * of their transcripts so they can be told apart without the environment
+ */
+export const CHILD_SESSION_CWD = join(DATA_DIR, "llm");
+
+/**
+ * Spawn options marking a `claude -p` invocation as the daemon's own
+ */
+export function childSessionSpawnOptions(): {
+  cwd: string;
+  env: NodeJS.ProcessEnv;
+} {
+  mkdirSync(CHILD_SESSION_CWD, { recursive: true });
+
+  return {
+    cwd: CHILD_SESSION_CWD,
+    env: { ...process.env, [CHILD_SESSION_ENV]: "1" },
+  };
+}
+
+/**
+ * Whether a session was started by the daemon itself
+ *
+ * Checks the environment marker (for hooks) and the session's cwd (for
+ * transcripts and queued items).
+ */
+export function isChildSession(
+  cwd: string | undefined,
+  env: NodeJS.ProcessEnv = {},
+): boolean {
+  if (env[CHILD_SESSION_ENV] === "1") {
+    return true;
+  }
+
+  return !!cwd && resolve(cwd) === CHILD_SESSION_CWD;
+}
@@ -0,0 +1,79 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { existsSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+describe("readConfig", () => {
+  let home: string;
+  let originalHome: string | undefined;
+  let configFile: string;
+  let config: typeof import("./config.js");
+
+  before(async () => {
+    // The config path is resolved from the home directory at import time
+    originalHome = process.env.HOME;
+    home = mkdtempSync(join(tmpdir(), "config-"));
+    process.env.HOME = home;
+    configFile = join(home, ".config", "l-daemon", "config.yaml");
+    config = await import("./config.js");
+  });
+
+  after(() => {
+    process.env.HOME = originalHome;
+    rmSync(home, { recursive: true, force: true });
+  });
+
+  test("returns defaults without creating the config file", () => {
+    assert.equal(config.readConfig().queue.backend, "jsonl");
+    assert.equal(config.readQueueBackend(), "jsonl");
+    assert.equal(existsSync(configFile), false);
+  });
+
+  test("does not leak one file's settings into later reads", () => {
+    writeConfig(`
+queue:
+  retry:
+    base_delay_seconds: 1
+llm:
+  cache:
+    enabled: false
+`);
+    const first = config.readConfig();
+    assert.equal(first.queue.retry.baseDelayMs, 1000);
+    assert.equal(first.llm.cache.enabled, false);
+
+    rmSync(configFile);
+    const second = config.readConfig();
+    assert.equal(second.queue.retry.baseDelayMs, 30_000);
+    assert.equal(second.llm.cache.enabled, true);
+  });
+
+  test("ignores a non-positive lease and thresholds outside 0..1", () => {
+    writeConfig(`
+queue:
+  lease_seconds: 0
+matching:
+  confidence_threshold: 70
+  review_threshold: -0.1
+`);
+    const loaded = config.readConfig();
+
+    assert.equal(loaded.queue.leaseMs, 5 * 60_000);
+    assert.equal(loaded.matching.confidenceThreshold, 0.7);
+    assert.equal(loaded.matching.reviewThreshold, 0.4);
+  });
+
+  test("reads the sqlite backend only when it is set outside comments", () => {
+    writeConfig("queue:\n  # backend: sqlite\n  backend: jsonl\n");
+    assert.equal(config.readQueueBackend(), "jsonl");
+
+    writeConfig("queue:\n  backend: sqlite\n");
+    assert.equal(config.readQueueBackend(), "sqlite");
+  });
+
+  function writeConfig(yaml: string): void {
+    mkdirSync(join(home, ".config", "l-daemon"), { recursive: true });
+    writeFileSync(configFile, yaml);
+  }
+});
@@ -1,13 +1,30 @@
 import { existsSync, readFileSync, mkdirSync, writeFileSync } from "fs";
+import { createRequire } from "module";
 import { homedir } from "os";
 import { join } from "path";
-import { parse as parseYaml } from "yaml";
+import type { IssueFilterOptions } from "../linear/client.js";
+import type {
+  HttpProviderConfig,
+  LLMConfig,
+  LLMProviderConfig,
+} from "../llm/providers.js";
+import type { ScoringWeights } from "../matching/types.js";
 
 export interface MatchingConfig {
   /** Enable fuzzy matching when no branch issue ID */
   enabled: boolean;
   /** Minimum confidence threshold (0.0 - 1.0) */
   confidenceThreshold: number;
+  /**
+   * Matches scoring in [reviewThreshold, confidenceThreshold) are parked
+   * for review instead of creating a new issue
+   */
+  reviewThreshold: number;
+  /**
+   * Accepted matches leading the runner-up by less than this are parked
+   * for review as ambiguous
+   */
+  ambiguityMargin: number;
   /** Weight for keyword search (0.0 - 1.0) */
   keywordWeight: number;
   /** Weight for semantic search (0.0 - 1.0) */
@@ -16,9 +33,63 @@ export interface MatchingConfig {
   enableSemantic: boolean;
   /** Maximum API calls per minute (rate limiting) */
   maxApiCallsPerMinute: number;
+  /** Relative weights of the issue-side scoring signals */
+  signalWeights: ScoringWeights;
+  /** Local issue index used for candidate retrieval */
+  index: IssueIndexConfig;
+  /** Which issues may be offered as candidates at all */
+  filters: IssueFilterOptions;
+  /** Groups of interchangeable terms, e.g. ["auth", "login", "認証"] */
+  synonyms: string[][];
+  /** Matching through PR/branch attachments, before fuzzy matching */
+  attachments: AttachmentMatchingConfig;
+  /** Boost for issues that recent related sessions were linked to */
+  continuity: ContinuityConfig;
+}
+
+export interface ContinuityConfig {
+  /** Confidence added for a session in the same cwd on the same files */
+  weight: number;
+  /** Hours after which a session's boost has halved */
+  halfLifeHours: number;
+}
+
+export interface AttachmentMatchingConfig {
+  /** Look for issues the session's PR or branch is attached to */
+  enabled: boolean;
+  /** Also ask `gh` for the open PR of the session's branch */
+  lookupOpenPr: boolean;
+}
+
+export interface IssueIndexConfig {
+  /** Retrieve candidates from the local index instead of the search API */
+  enabled: boolean;
+  /** How often the daemon pulls updated issues into the index (ms) */
+  syncIntervalMs: number;
+}
+
+export interface RetryConfig {
+  /** Delay before the first retry (ms) */
+  baseDelayMs: number;
+  /** Upper bound for the retry delay (ms) */
+  maxDelayMs: number;
+  /** Random spread applied to each delay (0.0 - 1.0, e.g. 0.2 = ±20%) */
+  jitter: number;
+}
+
+export interface QueueConfig {
+  /** Storage backend for queue items */
+  backend: "jsonl" | "sqlite";
+  /** Maximum retries before an item is given up on */
+  maxRetries: number;
+  /** Exponential backoff for failed items */
+  retry: RetryConfig;
+  /** How long a processing lease lasts before it can be reclaimed (ms) */
+  leaseMs: number;
 }
 
 export interface Config {
+  queue: QueueConfig;
   watch: {
     claudeProjectsPath: string;
   };
@@ -27,12 +98,36 @@ export interface Config {
     level: "debug" | "info" | "warn" | "error";
   };
   matching: MatchingConfig;
+  /** LLM used for summaries and semantic matching */
+  llm: LLMConfig;
 }
 
+const require = createRequire(import.meta.url);
+
 const CONFIG_DIR = join(homedir(), ".config", "l-daemon");
 const CONFIG_FILE = join(CONFIG_DIR, "config.yaml");
 
+/**
+ * Directory holding the queue, session state and caches
+ */
+export const DATA_DIR = join(
+  homedir(),
+  ".local",
+  "share",
+  "claude-linear-sync",
+);
+
 const DEFAULT_CONFIG: Config = {
+  queue: {
+    backend: "jsonl",
+    maxRetries: 3,
+    retry: {
+      baseDelayMs: 30_000,
+      maxDelayMs: 30 * 60_000,
+      jitter: 0.2,
+    },
+    leaseMs: 5 * 60_000,
+  },
   watch: {
     claudeProjectsPath: join(homedir(), ".claude", "projects"),
   },
@@ -43,13 +138,93 @@ const DEFAULT_CONFIG: Config = {
   matching: {
     enabled: true,
     confidenceThreshold: 0.7,
+    reviewThreshold: 0.4,
+    ambiguityMargin: 0.05,
     keywordWeight: 0.6,
     semanticWeight: 0.4,
     enableSemantic: true,
     maxApiCallsPerMinute: 30,
+    signalWeights: {
+      keywordScore: 0.25,
+      titleMatch: 0.35,
+      descriptionMatch: 0.2,
+      projectMatch: 0.15,
+      stateBonus: 0.1,
+      recencyBonus: 0.1,
+      assignedToMe: 0.1,
+    },
+    index: {
+      enabled: true,
+      syncIntervalMs: 15 * 60_000,
+    },
+    filters: {
+      teamKeys: [],
+      excludeStateTypes: ["completed", "canceled"],
+      assignedToMe: false,
+      updatedWithinDays: 180,
+    },
+    synonyms: [
+      ["auth", "login", "認証", "ログイン"],
+      ["bug", "不具合", "バグ"],
+      ["test", "テスト"],
+      ["deploy", "デプロイ"],
+    ],
+    attachments: {
+      enabled: true,
+      lookupOpenPr: true,
+    },
+    continuity: {
+      weight: 0.15,
+      halfLifeHours: 24,
+    },
+  },
+  llm: {
+    provider: "claude-cli",
+    claudeCli: {
+      command: "claude",
+      timeoutMs: 60_000,
+      maxTokens: 1024,
+    },
+    anthropic: {
+      baseUrl: "https://api.anthropic.com",
+      apiKeyEnv: "ANTHROPIC_API_KEY",
+      model: "claude-3-5-haiku-latest",
+      timeoutMs: 60_000,
+      maxTokens: 1024,
+    },
+    openai: {
+      baseUrl: "https://api.openai.com/v1",
+      apiKeyEnv: "OPENAI_API_KEY",
+      model: "gpt-4o-mini",
+      timeoutMs: 60_000,
+      maxTokens: 1024,
+    },
+    cache: {
+      enabled: true,
+      ttlMs: 7 * 24 * 60 * 60_000,
+      maxEntries: 1000,
+      maxBytes: 20 * 1024 * 1024,
+    },
+    budget: {
+      maxCallsPerDay: 0,
+      maxTokensPerDay: 0,
+    },
   },
 };
 
+const LLM_PROVIDERS = ["claude-cli", "anthropic", "openai"] as const;
+
+// YAML key → ScoringWeights field
+const SIGNAL_WEIGHT_KEYS: Record<string, keyof ScoringWeights> = {
+  keyword: "keywordScore",
+  title: "titleMatch",
+  description: "descriptionMatch",
+  project: "projectMatch",
+  state: "stateBonus",
+  recency: "recencyBonus",
+  assigned_to_me: "assignedToMe",
+};
+
 /**
  * Creates default config file if it doesn't exist
  */
@@ -64,6 +239,20 @@ function ensureConfigFile(): void {
 # Make sure Linear MCP is configured in Claude Code:
 #   ~/.claude.json -> mcpServers -> "linear-server": { "type": "sse", "url": "https://mcp.linear.app/sse" }
 
+queue:
+  # Storage backend: jsonl (default) or sqlite (requires Node.js 22.5+)
+  # Run \`claude-linear-sync queue migrate --to sqlite\` after switching
+  backend: jsonl
+  max_retries: 3
+  # Failed items are retried after base * 2^(attempt-1) seconds (± jitter)
+  retry:
+    base_delay_seconds: 30
+    max_delay_seconds: 1800
+    jitter: 0.2
+  # Items stuck in "processing" (e.g. after a crash) are reclaimed once
+  # their lease expires or the owning process is gone
+  lease_seconds: 300
+
 watch:
   # Path to Claude Code projects directory
   claude_projects_path: ~/.claude/projects/
@@ -78,11 +267,88 @@ logging:
 matching:
   enabled: true
   confidence_threshold: 0.7
+  # Best matches between review_threshold and confidence_threshold are
+  # parked for \`claude-linear-sync matches review\` instead of auto-creating
+  review_threshold: 0.4
+  # An accepted match leading the runner-up by less than this is parked
+  # for review instead of picking one of them
+  ambiguity_margin: 0.05
   keyword_weight: 0.6
   semantic_weight: 0.4
   # Enable semantic search using \`claude -p\` command
   enable_semantic: true
   max_api_calls_per_minute: 30
+  # Relative weights of the issue-side signals (semantic score is blended
+  # in with semantic_weight)
+  signal_weights:
+    keyword: 0.25        # Keyword search score of the candidate
+    title: 0.35
+    description: 0.2
+    project: 0.15
+    state: 0.1           # In Progress > Todo > Done
+    recency: 0.1         # Recently updated issues
+    assigned_to_me: 0.1  # Issues assigned to the LINEAR_API_KEY user
+  # Candidates come from a local BM25 index of Linear issues, so matching
+  # makes no API calls and works offline (\`claude-linear-sync index sync\`)
+  index:
+    enabled: true
+    sync_interval_minutes: 15
+  # Which issues may be candidates at all
+  filters:
+    teams: []                                  # Team keys, e.g. [ENG]; empty = all
+    exclude_state_types: [completed, canceled]
+    assigned_to_me: false
+    updated_within_days: 180                   # 0 = no limit
+  # Interchangeable terms; a session mentioning one also searches and
+  # scores with the others
+  synonyms:
+    - [auth, login, 認証, ログイン]
+    - [bug, 不具合, バグ]
+    - [test, テスト]
+    - [deploy, デプロイ]
+  # Issues the session's PR or branch is already attached to (via Linear's
+  # GitHub integration) are linked before fuzzy matching runs
+  attachments:
+    enabled: true
+    open_pr: true        # Look up the open PR with \`gh pr view\`
+  # Boost issues that recent sessions in the same cwd or on the same files
+  # were linked to; the boost halves every half_life_hours
+  continuity:
+    weight: 0.15
+    half_life_hours: 24
+
+# LLM for summaries and semantic matching
+llm:
+  provider: claude-cli   # claude-cli | anthropic | openai
+  claude_cli:
+    command: claude      # Prompt is passed on stdin
+    # model: sonnet
+    timeout_seconds: 60
+  anthropic:
+    base_url: https://api.anthropic.com
+    api_key_env: ANTHROPIC_API_KEY
+    model: claude-3-5-haiku-latest
+    timeout_seconds: 60
+    max_tokens: 1024
+  # Any OpenAI-compatible endpoint, e.g. a local model server
+  openai:
+    base_url: https://api.openai.com/v1
+    api_key_env: OPENAI_API_KEY
+    model: gpt-4o-mini
+    timeout_seconds: 60
+    max_tokens: 1024
+  # Responses are cached by a hash of the prompt and model, so re-syncing
+  # a session or re-running \`match explain\` doesn't call the LLM again
+  cache:
+    enabled: true
+    ttl_hours: 168
+    max_entries: 1000
+    max_size_mb: 20
+  # Daily cap on model calls (0 = unlimited). Once it is hit, matching is
+  # keyword-only and summaries are extractive until the next day
+  budget:
+    max_calls_per_day: 0
+    max_tokens_per_day: 0   # Estimated from prompt/response size
 `;
     writeFileSync(CONFIG_FILE, defaultYaml);
   }
@@ -93,14 +359,70 @@ matching:
  */
 export function loadConfig(): Config {
   ensureConfigFile();
+  return readConfig();
+}
+
+/**
+ * Reads the configured queue backend without creating the config file
+ *
+ * Hooks only need this one setting; unless "sqlite" appears outside a
+ * comment the backend is the default, so the YAML parser isn't loaded.
+ */
+export function readQueueBackend(): Config["queue"]["backend"] {
+  if (!existsSync(CONFIG_FILE)) {
+    return DEFAULT_CONFIG.queue.backend;
+  }
+
+  const mentionsSqlite = readFileSync(CONFIG_FILE, "utf-8")
+    .split("\n")
+    .some((line) => line.replace(/#.*$/, "").includes("sqlite"));
+
+  return mentionsSqlite ? readConfig().queue.backend : DEFAULT_CONFIG.queue.backend;
+}
 
-  const config = { ...DEFAULT_CONFIG };
+/**
+ * Reads configuration without creating a default config file
+ */
+export function readConfig(): Config {
+  // Deep copy: the parsing below assigns into nested sections
+  const config = structuredClone(DEFAULT_CONFIG);
 
   if (existsSync(CONFIG_FILE)) {
     try {
       const fileContent = readFileSync(CONFIG_FILE, "utf-8");
+      // Loaded on demand: the YAML parser dominates hook start-up time
+      const { parse: parseYaml } = require("yaml") as typeof import("yaml");
       const parsed = parseYaml(fileContent);
 
+      if (
+        parsed.queue?.backend === "jsonl" ||
+        parsed.queue?.backend === "sqlite"
+      ) {
+        config.queue.backend = parsed.queue.backend;
+      }
+      if (typeof parsed.queue?.max_retries === "number") {
+        config.queue.maxRetries = parsed.queue.max_retries;
+      }
+      if (typeof parsed.queue?.retry?.base_delay_seconds === "number") {
+        config.queue.retry.baseDelayMs =
+          parsed.queue.retry.base_delay_seconds * 1000;
+      }
+      if (typeof parsed.queue?.retry?.max_delay_seconds === "number") {
+        config.queue.retry.maxDelayMs =
+          parsed.queue.retry.max_delay_seconds * 1000;
+      }
+      if (typeof parsed.queue?.retry?.jitter === "number") {
+        config.queue.retry.jitter = parsed.queue.retry.jitter;
+      }
+      if (typeof parsed.queue?.lease_seconds === "number") {
+        // Lease renewal and reclaim run every leaseMs/3 and leaseMs/2
+        if (parsed.queue.lease_seconds > 0) {
+          config.queue.leaseMs = parsed.queue.lease_seconds * 1000;
+        } else {
+          warnInvalidSetting("queue.lease_seconds", "a positive number");
+        }
+      }
+
       if (parsed.watch?.claude_projects_path) {
         config.watch.claudeProjectsPath =
           parsed.watch.claude_projects_path.replace("~", homedir());
@@ -120,8 +442,22 @@ export function loadConfig(): Config {
           config.matching.enabled = parsed.matching.enabled;
         }
         if (typeof parsed.matching.confidence_threshold === "number") {
-          config.matching.confidenceThreshold =
-            parsed.matching.confidence_threshold;
+          if (isUnitInterval(parsed.matching.confidence_threshold)) {
+            config.matching.confidenceThreshold =
+              parsed.matching.confidence_threshold;
+          } else {
+            warnInvalidSetting("matching.confidence_threshold", "between 0 and 1");
+          }
+        }
+        if (typeof parsed.matching.review_threshold === "number") {
+          if (isUnitInterval(parsed.matching.review_threshold)) {
+            config.matching.reviewThreshold = parsed.matching.review_threshold;
+          } else {
+            warnInvalidSetting("matching.review_threshold", "between 0 and 1");
+          }
+        }
+        if (typeof parsed.matching.ambiguity_margin === "number") {
+          config.matching.ambiguityMargin = parsed.matching.ambiguity_margin;
         }
         if (typeof parsed.matching.keyword_weight === "number") {
           config.matching.keywordWeight = parsed.matching.keyword_weight;
@@ -136,6 +472,83 @@ export function loadConfig(): Config {
           config.matching.maxApiCallsPerMinute =
             parsed.matching.max_api_calls_per_minute;
         }
+        if (typeof parsed.matching.index?.enabled === "boolean") {
+          config.matching.index.enabled = parsed.matching.index.enabled;
+        }
+        if (typeof parsed.matching.index?.sync_interval_minutes === "number") {
+          config.matching.index.syncIntervalMs =
+            parsed.matching.index.sync_interval_minutes * 60_000;
+        }
+        const filters = parsed.matching.filters;
+        if (Array.isArray(filters?.teams)) {
+          config.matching.filters.teamKeys = filters.teams.map(String);
+        }
+        if (Array.isArray(filters?.exclude_state_types)) {
+          config.matching.filters.excludeStateTypes =
+            filters.exclude_state_types.map(String);
+        }
+        if (typeof filters?.assigned_to_me === "boolean") {
+          config.matching.filters.assignedToMe = filters.assigned_to_me;
+        }
+        if (typeof filters?.updated_within_days === "number") {
+          config.matching.filters.updatedWithinDays =
+            filters.updated_within_days;
+        }
+        if (typeof parsed.matching.attachments?.enabled === "boolean") {
+          config.matching.attachments.enabled =
+            parsed.matching.attachments.enabled;
+        }
+        if (typeof parsed.matching.attachments?.open_pr === "boolean") {
+          config.matching.attachments.lookupOpenPr =
+            parsed.matching.attachments.open_pr;
+        }
+        if (typeof parsed.matching.continuity?.weight === "number") {
+          config.matching.continuity.weight = parsed.matching.continuity.weight;
+        }
+        if (parsed.matching.continuity?.half_life_hours > 0) {
+          config.matching.continuity.halfLifeHours =
+            parsed.matching.continuity.half_life_hours;
+        }
+        if (Array.isArray(parsed.matching.synonyms)) {
+          config.matching.synonyms = parsed.matching.synonyms
+            .filter((group: unknown) => Array.isArray(group))
+            .map((group: unknown[]) => group.map(String));
+        }
+        for (const [key, field] of Object.entries(SIGNAL_WEIGHT_KEYS)) {
+          const weight = parsed.matching.signal_weights?.[key];
+          if (typeof weight === "number") {
+            config.matching.signalWeights[field] = weight;
+          }
+        }
+      }
+
+      // Parse LLM configuration
+      if (LLM_PROVIDERS.includes(parsed.llm?.provider)) {
+        config.llm.provider = parsed.llm.provider;
+      }
+      if (typeof parsed.llm?.claude_cli?.command === "string") {
+        config.llm.claudeCli.command = parsed.llm.claude_cli.command;
+      }
+      applyProviderSettings(config.llm.claudeCli, parsed.llm?.claude_cli);
+      applyProviderSettings(config.llm.anthropic, parsed.llm?.anthropic);
+      applyProviderSettings(config.llm.openai, parsed.llm?.openai);
+      if (typeof parsed.llm?.cache?.enabled === "boolean") {
+        config.llm.cache.enabled = parsed.llm.cache.enabled;
+      }
+      if (typeof parsed.llm?.cache?.ttl_hours === "number") {
+        config.llm.cache.ttlMs = parsed.llm.cache.ttl_hours * 60 * 60_000;
+      }
+      if (typeof parsed.llm?.cache?.max_entries === "number") {
+        config.llm.cache.maxEntries = parsed.llm.cache.max_entries;
+      }
+      if (typeof parsed.llm?.cache?.max_size_mb === "number") {
+        config.llm.cache.maxBytes = parsed.llm.cache.max_size_mb * 1024 * 1024;
+      }
+      if (typeof parsed.llm?.budget?.max_calls_per_day === "number") {
+        config.llm.budget.maxCallsPerDay = parsed.llm.budget.max_calls_per_day;
+      }
+      if (typeof parsed.llm?.budget?.max_tokens_per_day === "number") {
+        config.llm.budget.maxTokensPerDay = parsed.llm.budget.max_tokens_per_day;
       }
     } catch (error) {
       console.error("Failed to parse config file:", error);
@@ -144,3 +557,41 @@ export function loadConfig(): Config {
 
   return config;
 }
+
+function isUnitInterval(value: number): boolean {
+  return value >= 0 && value <= 1;
+}
+
+/**
+ * Reports a setting that is ignored in favor of its default
+ */
+function warnInvalidSetting(key: string, expected: string): void {
+  console.error(`Ignoring ${key} in config file: must be ${expected}`);
+}
+
+/**
+ * Copies the snake_case settings of one LLM provider onto its config
+ */
+function applyProviderSettings(
+  target: LLMProviderConfig & Partial<HttpProviderConfig>,
+  raw: Record<string, unknown> | undefined,
+): void {
+  if (!raw) {
+    return;
+  }
+  if (typeof raw.model === "string") {
+    target.model = raw.model;
+  }
+  if (typeof raw.timeout_seconds === "number") {
+    target.timeoutMs = raw.timeout_seconds * 1000;
+  }
+  if (typeof raw.max_tokens === "number") {
+    target.maxTokens = raw.max_tokens;
+  }
+  if (typeof raw.base_url === "string") {
+    target.baseUrl = raw.base_url;
+  }
+  if (typeof raw.api_key_env === "string") {
+    target.apiKeyEnv = raw.api_key_env;
+  }
+}
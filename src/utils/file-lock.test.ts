@@ -0,0 +1,165 @@
+import { afterEach, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { spawn, spawnSync } from "child_process";
+import {
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  readdirSync,
+  rmSync,
+  utimesSync,
+  writeFileSync,
+} from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { withFileLock } from "./file-lock.js";
+
+const FILE_LOCK_MODULE = new URL("./file-lock.ts", import.meta.url).pathname;
+
+describe("withFileLock", () => {
+  let dir: string;
+  let target: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "file-lock-"));
+    target = join(dir, "state.json");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("holds the lock file while running and removes it afterwards", () => {
+    const result = withFileLock(target, () => {
+      assert.ok(existsSync(`${target}.lock`));
+      return 42;
+    });
+
+    assert.equal(result, 42);
+    assert.equal(existsSync(`${target}.lock`), false);
+  });
+
+  test("releases the lock when the callback throws", () => {
+    assert.throws(() =>
+      withFileLock(target, () => {
+        throw new Error("boom");
+      }),
+    );
+    assert.equal(existsSync(`${target}.lock`), false);
+  });
+
+  test("is re-entrant within a process", () => {
+    const result = withFileLock(target, () =>
+      withFileLock(target, () => "inner"),
+    );
+
+    assert.equal(result, "inner");
+    assert.equal(existsSync(`${target}.lock`), false);
+  });
+
+  test("times out while a live process holds the lock", () => {
+    writeFileSync(`${target}.lock`, `${process.pid}\n${new Date().toISOString()}\n`);
+
+    assert.throws(
+      () => withFileLock(target, () => "never", { timeout: 50 }),
+      /Timed out waiting for lock/,
+    );
+    assert.ok(existsSync(`${target}.lock`));
+  });
+
+  test("breaks a lock whose owner has exited", () => {
+    writeFileSync(`${target}.lock`, `${deadPid()}\n${new Date().toISOString()}\n`);
+
+    assert.equal(
+      withFileLock(target, () => "taken", { timeout: 500 }),
+      "taken",
+    );
+    assertNoBreakClaims(dir);
+  });
+
+  test("breaks a lock older than staleAfter", () => {
+    writeFileSync(`${target}.lock`, `${process.pid}\n`);
+    const old = new Date(Date.now() - 60_000);
+    utimesSync(`${target}.lock`, old, old);
+
+    assert.equal(
+      withFileLock(target, () => "taken", { timeout: 500, staleAfter: 1000 }),
+      "taken",
+    );
+    assertNoBreakClaims(dir);
+  });
+
+  test("clears a break claim left by a dead waiter", () => {
+    writeFileSync(`${target}.lock`, `${deadPid()}\nold-owner\n`);
+    writeFileSync(`${target}.lock.break`, `${deadPid()}\n`);
+
+    assert.equal(
+      withFileLock(target, () => "taken", { timeout: 500 }),
+      "taken",
+    );
+    assertNoBreakClaims(dir);
+  });
+
+  test("leaves a lock taken over by another owner in place", () => {
+    const lock = `${process.pid}\nother-owner\n${new Date().toISOString()}\n`;
+
+    withFileLock(target, () => {
+      // As if this lock had been broken as stale and taken by another process
+      writeFileSync(`${target}.lock`, lock);
+    });
+
+    assert.equal(readFileSync(`${target}.lock`, "utf-8"), lock);
+  });
+
+  test("keeps concurrent processes exclusive while breaking a stale lock", async () => {
+    const counter = join(dir, "counter");
+    writeFileSync(counter, "0");
+    // Every waiter starts out seeing this abandoned lock
+    writeFileSync(`${target}.lock`, `${deadPid()}\n`);
+
+    const script = `
+      import { readFileSync, writeFileSync } from "fs";
+      const { withFileLock } = await import(${JSON.stringify(FILE_LOCK_MODULE)});
+      for (let i = 0; i < 25; i++) {
+        withFileLock(${JSON.stringify(target)}, () => {
+          const value = Number(readFileSync(${JSON.stringify(counter)}, "utf-8"));
+          writeFileSync(${JSON.stringify(counter)}, String(value + 1));
+        }, { timeout: 20000 });
+      }
+    `;
+    const workers = Array.from({ length: 4 }, () => runScript(script));
+    const codes = await Promise.all(workers);
+
+    assert.deepEqual(codes, [0, 0, 0, 0]);
+    assert.equal(readFileSync(counter, "utf-8"), "100");
+    assert.equal(existsSync(`${target}.lock`), false);
+    assertNoBreakClaims(dir);
+  });
+});
+
+/**
+ * PID of a process that has already exited
+ */
+function deadPid(): number {
+  const child = spawnSync(process.execPath, ["-e", "0"]);
+  return child.pid!;
+}
+
+function runScript(script: string): Promise<number | null> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(
+      process.execPath,
+      ["--import", "tsx", "--input-type=module", "-e", script],
+      { stdio: ["ignore", "ignore", "inherit"] },
+    );
+    child.on("error", reject);
+    child.on("close", resolve);
+  });
+}
+
+function assertNoBreakClaims(dir: string): void {
+  assert.deepEqual(
+    readdirSync(dir).filter((name) => name.endsWith(".break")),
+    [],
+  );
+}
@@ -0,0 +1,233 @@
+import {
+  openSync,
+  writeSync,
+  closeSync,
+  unlinkSync,
+  readFileSync,
+  statSync,
+} from "fs";
+import { randomUUID } from "crypto";
+
+/**
+ * Options for acquiring a file lock
+ */
+export interface FileLockOptions {
+  /** Give up after waiting this long (ms) */
+  timeout?: number;
+  /** Delay between acquisition attempts (ms) */
+  retryInterval?: number;
+  /** Locks older than this are considered abandoned (ms) */
+  staleAfter?: number;
+}
+
+const DEFAULT_OPTIONS: Required<FileLockOptions> = {
+  timeout: 5000,
+  retryInterval: 5,
+  staleAfter: 30000,
+};
+
+/**
+ * A lock held by this process
+ */
+interface HeldLock {
+  /** Written into the lock file so only its owner removes it */
+  token: string;
+  /** Re-entry depth */
+  depth: number;
+}
+
+const heldLocks: Map<string, HeldLock> = new Map();
+
+/**
+ * Runs `fn` while holding an advisory lock on `path`
+ *
+ * The lock is a sibling `<path>.lock` file created with O_EXCL, so it is
+ * shared by every process that goes through this helper (daemon, CLI and
+ * hooks). Locks are re-entrant within a process, and a lock whose owner
+ * PID is gone or that is older than `staleAfter` is broken.
+ */
+export function withFileLock<T>(
+  path: string,
+  fn: () => T,
+  options?: FileLockOptions,
+): T {
+  const lockPath = `${path}.lock`;
+  const held = heldLocks.get(lockPath);
+
+  if (held) {
+    held.depth++;
+    try {
+      return fn();
+    } finally {
+      held.depth--;
+    }
+  }
+
+  const token = acquireLock(lockPath, { ...DEFAULT_OPTIONS, ...options });
+  heldLocks.set(lockPath, { token, depth: 1 });
+
+  try {
+    return fn();
+  } finally {
+    heldLocks.delete(lockPath);
+    releaseLock(lockPath, token);
+  }
+}
+
+/**
+ * Spins until the lock file can be created exclusively
+ *
+ * @returns Owner token written into the lock file
+ */
+function acquireLock(
+  lockPath: string,
+  options: Required<FileLockOptions>,
+): string {
+  const token = randomUUID();
+  const deadline = Date.now() + options.timeout;
+
+  while (true) {
+    if (createLockFile(lockPath, `${token}\n${new Date().toISOString()}`)) {
+      return token;
+    }
+
+    const staleToken = findStaleLock(lockPath, options.staleAfter);
+    if (staleToken !== null) {
+      breakStaleLock(lockPath, staleToken, options.staleAfter);
+      continue;
+    }
+
+    if (Date.now() >= deadline) {
+      throw new Error(`Timed out waiting for lock: ${lockPath}`);
+    }
+
+    sleepSync(options.retryInterval);
+  }
+}
+
+/**
+ * Removes the lock file if this process still owns it
+ *
+ * A lock broken as stale may belong to another process by now.
+ */
+function releaseLock(lockPath: string, token: string): void {
+  if (readLockToken(lockPath) !== token) {
+    return;
+  }
+
+  try {
+    unlinkSync(lockPath);
+  } catch {
+    // Already removed
+  }
+}
+
+/**
+ * Creates a lock file holding this PID and `content`
+ *
+ * @returns false if the file already exists
+ */
+function createLockFile(path: string, content: string): boolean {
+  let fd: number;
+  try {
+    fd = openSync(path, "wx");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+      return false;
+    }
+    throw error;
+  }
+
+  try {
+    writeSync(fd, `${process.pid}\n${content}\n`);
+  } finally {
+    closeSync(fd);
+  }
+  return true;
+}
+
+/**
+ * Returns the owner token of a lock abandoned by a dead or hung owner
+ */
+function findStaleLock(lockPath: string, staleAfter: number): string | null {
+  try {
+    const stat = statSync(lockPath);
+    const [pidLine, token = ""] = readFileSync(lockPath, "utf-8").split("\n");
+    const pid = parseInt(pidLine, 10);
+    const stale =
+      (!isNaN(pid) && !isProcessAlive(pid)) ||
+      Date.now() - stat.mtimeMs > staleAfter;
+
+    return stale ? token : null;
+  } catch {
+    // Lock vanished or is half-written; retry on the next loop
+    return null;
+  }
+}
+
+/**
+ * Removes a stale lock without racing other waiters
+ *
+ * Checking and unlinking separately would let a second waiter delete the
+ * fresh lock the first one just took. Waiters therefore break locks one at
+ * a time under a sibling `<lock>.break` file, and only after re-reading
+ * that the lock still carries the stale owner's token.
+ */
+function breakStaleLock(
+  lockPath: string,
+  staleToken: string,
+  staleAfter: number,
+): void {
+  const breakPath = `${lockPath}.break`;
+
+  if (!createLockFile(breakPath, new Date().toISOString())) {
+    // Another waiter is breaking the lock; clear its claim if it died
+    if (findStaleLock(breakPath, staleAfter) !== null) {
+      try {
+        unlinkSync(breakPath);
+      } catch {
+        // Cleared by another waiter
+      }
+    }
+    return;
+  }
+
+  try {
+    if (readLockToken(lockPath) === staleToken) {
+      unlinkSync(lockPath);
+    }
+  } finally {
+    unlinkSync(breakPath);
+  }
+}
+
+/**
+ * Reads the owner token of a lock file (null once it is gone)
+ */
+function readLockToken(lockPath: string): string | null {
+  try {
+    return readFileSync(lockPath, "utf-8").split("\n")[1] ?? "";
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Checks if a process with the given PID exists
+ */
+export function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/**
+ * Blocks the current thread for the given duration
+ */
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}